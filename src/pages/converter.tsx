@@ -7,9 +7,23 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { SQLParser } from "@/services/sql-parser";
 import { PrismaGenerator } from "@/services/prisma-generator";
+import { MigrationImporter } from "@/services/migration-importer";
+import {
+  Diagnostic,
+  PrismaGeneratorOptions,
+  SQLParseResult,
+  SQLSourceRange,
+} from "@/types";
 import {
   Database,
   Layers,
@@ -18,6 +32,7 @@ import {
   Download,
   HelpCircle,
   CheckCircle2,
+  AlertTriangle,
 } from "lucide-react";
 import Editor from "@monaco-editor/react";
 
@@ -43,7 +58,7 @@ const registerLanguagesAndThemes = () => {
           [/\/\*/, "comment", "@comment"],
 
           // Keywords
-          [/\b(model|enum|datasource|generator|type)\b/, "keyword"],
+          [/\b(model|view|enum|datasource|generator|type)\b/, "keyword"],
 
           // Boolean literals
           [/\b(true|false)\b/, "boolean"],
@@ -301,13 +316,21 @@ export default function Converter() {
   const [sqlCopied, setSqlCopied] = useState(false);
   const [prismaCopied, setPrismaCopied] = useState(false);
   const [isHelpDialogOpen, setIsHelpDialogOpen] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [generatorOptions, setGeneratorOptions] =
+    useState<PrismaGeneratorOptions>({});
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const sqlEditorRef = useRef<any>(null);
+  const sqlMonacoRef = useRef<any>(null);
   const prismaEditorRef = useRef<any>(null);
   const isModifierPressedRef = useRef(false);
   const sqlInputRef = useRef(sqlInput);
   const currentDecorationsRef = useRef<string[]>([]);
+  // Last successful parse, kept with its SQL so source ranges are only used while they are current
+  const lastParseRef = useRef<{ sql: string; result: SQLParseResult } | null>(
+    null
+  );
 
   // Initialize Monaco with language support and themes
   const handleEditorWillMount = (_monaco: any) => {
@@ -378,6 +401,7 @@ export default function Converter() {
   // Handle SQL editor mount
   const handleSqlEditorMount = (editor: any, monaco: any) => {
     sqlEditorRef.current = editor;
+    sqlMonacoRef.current = monaco;
 
     // Configure word pattern for SQL to include underscores
     monaco.languages.setLanguageConfiguration("sql", {
@@ -471,8 +495,8 @@ export default function Converter() {
   const getPrismaEntitiesFromPrisma = (prisma: string): Set<string> => {
     const entityNames = new Set<string>();
 
-    // Match model declarations (more flexible - handles indentation)
-    const modelRegex = /^\s*model\s+([A-Z][a-zA-Z0-9_]*)/gm;
+    // Match model and view declarations (more flexible - handles indentation)
+    const modelRegex = /^\s*(?:model|view)\s+([A-Z][a-zA-Z0-9_]*)/gm;
     let match;
     while ((match = modelRegex.exec(prisma)) !== null) {
       console.log("Found model:", match[1]);
@@ -704,6 +728,7 @@ export default function Converter() {
     (sql: string) => {
       if (!sql.trim()) {
         setPrismaOutput("");
+        setDiagnostics([]);
         setTablesConverted(0);
         setConversionStatus("ready");
         return;
@@ -714,24 +739,40 @@ export default function Converter() {
 
         // Parse SQL and generate Prisma schema
         const parseResult = SQLParser.parseSQL(sql);
-
-        if (parseResult.tables.length === 0 && parseResult.enums.length === 0) {
+        lastParseRef.current = { sql, result: parseResult };
+
+        if (
+          parseResult.tables.length === 0 &&
+          parseResult.enums.length === 0 &&
+          parseResult.views.length === 0
+        ) {
+          setDiagnostics(
+            MigrationImporter.attributeDiagnostics(sql, parseResult.diagnostics)
+          );
           setConversionStatus("error");
           toast({
             title: "Conversion Error",
-            description: "No valid table definitions or enums found in SQL",
+            description: "No valid table, view or enum definitions found in SQL",
             variant: "destructive",
           });
           return;
         }
 
-        const prismaSchema = PrismaGenerator.generatePrismaSchema(parseResult);
+        const { schema: prismaSchema, diagnostics: generationDiagnostics } =
+          PrismaGenerator.generatePrismaSchema(parseResult, generatorOptions);
 
+        setDiagnostics(
+          MigrationImporter.attributeDiagnostics(sql, [
+            ...parseResult.diagnostics,
+            ...generationDiagnostics,
+          ])
+        );
         setPrismaOutput(prismaSchema);
         setConversionStatus("ready");
 
         // Count number of models and enums in the output
-        const modelCount = (prismaSchema.match(/^model\s+\w+/gm) || []).length;
+        const modelCount = (prismaSchema.match(/^(model|view)\s+\w+/gm) || [])
+          .length;
         const enumCount = (prismaSchema.match(/^enum\s+\w+/gm) || []).length;
         setTablesConverted(modelCount + enumCount);
       } catch (error) {
@@ -739,13 +780,14 @@ export default function Converter() {
         setConversionStatus("error");
         toast({
           title: "Conversion Error",
-          description:
-            "An error occurred during conversion. Please check your SQL syntax.",
+          description: `An unexpected error occurred during conversion: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
           variant: "destructive",
         });
       }
     },
-    [toast]
+    [toast, generatorOptions]
   );
 
   const debouncedConvert = useCallback(
@@ -761,9 +803,39 @@ export default function Converter() {
     sqlInputRef.current = sqlInput;
   }, [sqlInput]);
 
+  // Option changes apply immediately to the current SQL
+  useEffect(() => {
+    convertSQLToPrisma(sqlInputRef.current);
+  }, [generatorOptions]);
+
   // Monitor prismaOutput changes for debugging
   useEffect(() => {}, [prismaOutput]);
 
+  // Mirror diagnostics as markers (squiggles) in the SQL editor
+  useEffect(() => {
+    const monaco = sqlMonacoRef.current;
+    const model = sqlEditorRef.current?.getModel();
+    if (!monaco || !model) return;
+
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    };
+    const markers = diagnostics
+      .filter((diagnostic) => diagnostic.range)
+      .map((diagnostic) => ({
+        severity: severities[diagnostic.severity],
+        code: diagnostic.code,
+        message: diagnostic.message,
+        startLineNumber: diagnostic.range!.startLine,
+        startColumn: diagnostic.range!.startColumn,
+        endLineNumber: diagnostic.range!.endLine,
+        endColumn: diagnostic.range!.endColumn,
+      }));
+    monaco.editor.setModelMarkers(model, "sql-to-prisma", markers);
+  }, [diagnostics]);
+
   // Global modifier key tracking
   useEffect(() => {
     const handleGlobalKeyDown = (e: KeyboardEvent) => {
@@ -891,43 +963,58 @@ export default function Converter() {
     }
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // One file is imported as-is; several are treated as migrations and replayed in version order
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const files = Array.from(event.target.files ?? []);
+    // Reset the input so the same files can be selected again
+    event.target.value = "";
+    if (files.length === 0) return;
 
-    if (!file.name.endsWith(".sql")) {
+    if (files.some((file) => !file.name.endsWith(".sql"))) {
       toast({
         title: "Invalid File Type",
-        description: "Please select a .sql file",
+        description: "Please select .sql files only",
         variant: "destructive",
       });
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      if (content) {
-        setSqlInput(content);
+    try {
+      const contents = await Promise.all(files.map((file) => file.text()));
+
+      if (files.length === 1) {
+        setSqlInput(contents[0]);
         toast({
           title: "File Imported",
-          description: `Successfully imported ${file.name}`,
+          description: `Successfully imported ${files[0].name}`,
         });
+        return;
       }
-    };
 
-    reader.onerror = () => {
+      const bundle = MigrationImporter.combine(
+        files.map((file, index) => ({
+          name: file.name,
+          content: contents[index],
+        }))
+      );
+      setSqlInput(bundle.sql);
+      toast({
+        title: "Migrations Imported",
+        description: `Replayed ${bundle.files.length} migration files${
+          bundle.skipped.length > 0
+            ? `, skipped ${bundle.skipped.length} down migrations`
+            : ""
+        }`,
+      });
+    } catch (error) {
       toast({
         title: "Import Failed",
-        description: "Failed to read the file",
+        description: "Failed to read the selected files",
         variant: "destructive",
       });
-    };
-
-    reader.readAsText(file);
-
-    // Reset the input so the same file can be selected again
-    event.target.value = "";
+    }
   };
 
   // Convert SQL entity name to Prisma name (model or enum)
@@ -1129,6 +1216,35 @@ export default function Converter() {
     }
   };
 
+  // Look up the exact source range of the table or enum that produced a Prisma model/enum
+  const findSqlEntityRange = (
+    prismaName: string
+  ): SQLSourceRange | undefined => {
+    const lastParse = lastParseRef.current;
+    if (!lastParse || lastParse.sql !== sqlInputRef.current) return undefined;
+
+    // Model names can carry a schema prefix, so look the name up instead of reversing it
+    const entity = [
+      ...PrismaGenerator.resolveEntityNames(lastParse.result),
+    ].find(([, name]) => name === prismaName)?.[0];
+    return entity?.range;
+  };
+
+  const selectSqlRange = (range: SQLSourceRange) => {
+    const sqlEditor = sqlEditorRef.current;
+    if (!sqlEditor) return;
+
+    const editorRange = {
+      startLineNumber: range.startLine,
+      startColumn: range.startColumn,
+      endLineNumber: range.endLine,
+      endColumn: range.endColumn,
+    };
+    sqlEditor.focus();
+    sqlEditor.revealRangeInCenter(editorRange);
+    sqlEditor.setSelection(editorRange);
+  };
+
   // Navigate to corresponding SQL table from Prisma model
   const navigateToSqlTable = (prismaModelName: string) => {
     if (!sqlEditorRef.current) {
@@ -1152,6 +1268,17 @@ export default function Converter() {
       return;
     }
 
+    const entityRange = findSqlEntityRange(prismaModelName);
+    if (entityRange) {
+      selectSqlRange(entityRange);
+      toast({
+        title: "Navigated to Table",
+        description: `Found ${prismaModelName} definition in SQL schema`,
+      });
+      return;
+    }
+
+    // Fall back to text search when the parse result is stale or has no match
     const sqlTableName = prismaToSqlName(prismaModelName);
 
     try {
@@ -1257,6 +1384,7 @@ export default function Converter() {
         ref={fileInputRef}
         onChange={handleFileChange}
         accept=".sql"
+        multiple
         style={{ display: "none" }}
       />
       {/* Header */}
@@ -1276,6 +1404,38 @@ export default function Converter() {
             </div>
           </div>
           <div className="flex items-center space-x-3">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="check-enums"
+                data-testid="switch-check-enums"
+                checked={!!generatorOptions.checkConstraintsAsEnums}
+                onCheckedChange={(checked) =>
+                  setGeneratorOptions((options) => ({
+                    ...options,
+                    checkConstraintsAsEnums: checked,
+                  }))
+                }
+              />
+              <Label htmlFor="check-enums" className="text-sm">
+                CHECK lists as enums
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="composite-json"
+                data-testid="switch-composite-json"
+                checked={!!generatorOptions.compositeTypesAsJson}
+                onCheckedChange={(checked) =>
+                  setGeneratorOptions((options) => ({
+                    ...options,
+                    compositeTypesAsJson: checked,
+                  }))
+                }
+              />
+              <Label htmlFor="composite-json" className="text-sm">
+                Composite types as Json
+              </Label>
+            </div>
             <Button
               variant="secondary"
               size="sm"
@@ -1458,6 +1618,59 @@ export default function Converter() {
           <div data-testid="text-tables-converted">
             {tablesConverted} items converted
           </div>
+          {diagnostics.length > 0 && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <button
+                  data-testid="button-diagnostics"
+                  className="flex items-center space-x-1 hover:text-foreground"
+                >
+                  <AlertTriangle className="h-3 w-3 text-chart-3" />
+                  <span>
+                    {diagnostics.length}{" "}
+                    {diagnostics.length === 1 ? "issue" : "issues"}
+                  </span>
+                </button>
+              </PopoverTrigger>
+              <PopoverContent
+                align="start"
+                className="w-[32rem] max-h-80 overflow-y-auto p-2"
+              >
+                <ul className="space-y-1 text-xs">
+                  {diagnostics.map((diagnostic, index) => (
+                    <li key={index}>
+                      <button
+                        className="w-full text-left p-2 rounded hover:bg-muted disabled:cursor-default"
+                        disabled={!diagnostic.range}
+                        onClick={() =>
+                          diagnostic.range && selectSqlRange(diagnostic.range)
+                        }
+                      >
+                        <span
+                          className={`font-medium uppercase mr-2 ${
+                            diagnostic.severity === "error"
+                              ? "text-destructive"
+                              : diagnostic.severity === "warning"
+                              ? "text-chart-3"
+                              : "text-muted-foreground"
+                          }`}
+                        >
+                          {diagnostic.severity}
+                        </span>
+                        <span>{diagnostic.message}</span>
+                        {diagnostic.range && (
+                          <span className="ml-2 text-muted-foreground">
+                            ({diagnostic.file && `${diagnostic.file}, `}line{" "}
+                            {diagnostic.range.startLine})
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </PopoverContent>
+            </Popover>
+          )}
           <div>PostgreSQL dialect</div>
         </div>
         <div className="flex items-center space-x-4">
@@ -1551,8 +1764,10 @@ export default function Converter() {
                 <li className="flex items-start space-x-2">
                   <span className="text-chart-2 mt-1">•</span>
                   <span>
-                    <strong>Import/Export:</strong> Import SQL files and export
-                    generated Prisma schemas
+                    <strong>Import/Export:</strong> Import a SQL file, or
+                    select several migration files (Flyway, golang-migrate or
+                    numbered) to replay them in order, and export generated
+                    Prisma schemas
                   </span>
                 </li>
                 <li className="flex items-start space-x-2">
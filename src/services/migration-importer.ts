@@ -0,0 +1,96 @@
+import { Diagnostic, MigrationBundle, MigrationFile } from "@/types";
+import { SQLLexer } from "@/services/sql-lexer";
+
+// Comment line that starts each file in the combined SQL; diagnostics are attributed by it
+const FILE_MARKER = '-- migration: ';
+
+// Flyway: V12__add_orders.sql, V1_2__x.sql (version 1.2), U12__x.sql (undo), R__views.sql (repeatable)
+const FLYWAY_PATTERN = /^([VUR])(\d+(?:[._]\d+)*)?__.*\.sql$/i;
+
+// golang-migrate (0003_x.up.sql / 0003_x.down.sql) and plain numbered files (0003_x.sql, 20240101120000-x.sql)
+const NUMBERED_PATTERN = /^(\d+)(?:[_-].*)?\.sql$/i;
+
+// Down migrations of tools that keep them in separate files
+const DOWN_PATTERN = /[._-]down\.sql$/i;
+
+interface OrderedFile {
+  file: MigrationFile;
+  // Sort key: versioned files first, then repeatable ones, then anything without a recognizable version
+  group: number;
+  version: number[];
+}
+
+export class MigrationImporter {
+  // Order migration files by their versioning convention and join them into one SQL document
+  static combine(files: MigrationFile[]): MigrationBundle {
+    const ordered: OrderedFile[] = [];
+    const skipped: string[] = [];
+
+    for (const file of files) {
+      const entry = this.classify(file);
+      if (entry) {
+        ordered.push(entry);
+      } else {
+        skipped.push(file.name);
+      }
+    }
+
+    ordered.sort((a, b) => a.group - b.group || this.compareVersions(a.version, b.version) || a.file.name.localeCompare(b.file.name));
+
+    const sql = ordered
+      .map(({ file }) => {
+        // A missing final semicolon would merge the last statement with the next file's first one
+        const tokens = SQLLexer.tokenize(file.content);
+        const last = tokens[tokens.length - 1];
+        const terminator = last && !(last.type === 'punctuation' && last.value === ';') ? '\n;' : '';
+        return `${FILE_MARKER}${file.name}\n${file.content.replace(/\s+$/, '')}${terminator}\n`;
+      })
+      .join('\n');
+
+    return { sql, files: ordered.map(({ file }) => file.name), skipped };
+  }
+
+  // Set each diagnostic's file from the nearest migration marker above it
+  static attributeDiagnostics(sql: string, diagnostics: Diagnostic[]): Diagnostic[] {
+    const markers: { line: number; file: string }[] = [];
+    sql.split('\n').forEach((text, index) => {
+      if (text.startsWith(FILE_MARKER)) {
+        markers.push({ line: index + 1, file: text.slice(FILE_MARKER.length).trim() });
+      }
+    });
+    if (markers.length === 0) return diagnostics;
+
+    return diagnostics.map(diagnostic => {
+      if (!diagnostic.range) return diagnostic;
+      const marker = [...markers].reverse().find(candidate => candidate.line <= diagnostic.range!.startLine);
+      return marker ? { ...diagnostic, file: marker.file } : diagnostic;
+    });
+  }
+
+  // Null for down/undo migrations, which would revert the schema
+  private static classify(file: MigrationFile): OrderedFile | null {
+    const name = file.name.split('/').pop() ?? file.name;
+    if (DOWN_PATTERN.test(name)) return null;
+
+    const flyway = FLYWAY_PATTERN.exec(name);
+    if (flyway) {
+      const prefix = flyway[1].toUpperCase();
+      if (prefix === 'U') return null;
+      if (prefix === 'R') return { file, group: 1, version: [] };
+      if (flyway[2]) return { file, group: 0, version: flyway[2].split(/[._]/).map(Number) };
+    }
+
+    const numbered = NUMBERED_PATTERN.exec(name.replace(/\.up\.sql$/i, '.sql'));
+    if (numbered) return { file, group: 0, version: [Number(numbered[1])] };
+
+    return { file, group: 2, version: [] };
+  }
+
+  private static compareVersions(a: number[], b: number[]): number {
+    for (let index = 0; index < Math.max(a.length, b.length); index++) {
+      const difference = (a[index] ?? 0) - (b[index] ?? 0);
+      if (difference !== 0) return difference;
+    }
+    return 0;
+  }
+}
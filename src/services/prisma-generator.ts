@@ -5,24 +5,141 @@ import {
   SQLParseResult,
   PrismaEnum,
   SQLEnum,
+  Diagnostic,
+  DiagnosticCode,
+  PrismaGenerationResult,
+  SQLConstraint,
+  SQLReferentialAction,
+  SQLIndex,
+  SQLColumn,
+  PrismaGeneratorOptions,
+  SQLView,
+  SQLExtension,
+  SQLNode,
+  SQLToken,
 } from "@/types";
-
-export class PrismaGenerator {
-  static generatePrismaSchema(parseResult: SQLParseResult): string {
-    const enums = this.convertEnumsToPrismaEnums(parseResult.enums);
-    const models = this.convertTablesToModels(parseResult.tables, enums);
-
-    const header = `// Generated Prisma schema
-generator client {
-  provider = "prisma-client-js"
+import { SQLLexer } from "@/services/sql-lexer";
+import { SQLCursor } from "@/services/sql-cursor";
+
+const REFERENTIAL_ACTIONS: Record<SQLReferentialAction, string> = {
+  CASCADE: "Cascade",
+  RESTRICT: "Restrict",
+  "NO ACTION": "NoAction",
+  "SET NULL": "SetNull",
+  "SET DEFAULT": "SetDefault",
+};
+
+// PostgreSQL access methods supported by @@index(type: ...)
+const INDEX_TYPES: Record<string, string> = {
+  btree: "BTree",
+  hash: "Hash",
+  gist: "Gist",
+  spgist: "SpGist",
+  gin: "Gin",
+  brin: "Brin",
+};
+
+// Column types backed by a sequence, emitted with @default(autoincrement())
+const AUTOINCREMENT_TYPES = ["SERIAL", "BIGSERIAL", "SMALLSERIAL"];
+
+// Prisma scalar types whose defaults are number literals
+const NUMERIC_TYPES = ["Int", "BigInt", "Float", "Decimal"];
+
+// Operator classes with a named Prisma equivalent; the rest are passed through raw()
+const OPERATOR_CLASSES: Record<string, string> = {
+  jsonb_ops: "JsonbOps",
+  jsonb_path_ops: "JsonbPathOps",
+  array_ops: "ArrayOps",
+  inet_ops: "InetOps",
+};
+
+// Installed in every PostgreSQL database; listing them would make Prisma Migrate manage them
+const BUILTIN_EXTENSIONS = ["plpgsql"];
+
+// Schema Prisma Migrate creates extensions in when the extensions list doesn't name one
+const DEFAULT_EXTENSION_SCHEMA = "public";
+
+// UUID generators: gen_random_uuid() (built in, or from pgcrypto) and uuid-ossp's uuid_generate_v1/v1mc/v4()
+const UUID_FUNCTION_PATTERN =
+  /\b(gen_random_uuid|uuid_generate_v(?:1mc|1|4))\(\)/;
+
+// PostgreSQL truncates longer identifiers, and so does Prisma when it derives constraint names
+const MAX_IDENTIFIER_LENGTH = 63;
+
+// State shared by the conversion functions of a single generatePrismaSchema call
+interface GenerationContext {
+  enums: PrismaEnum[];
+  diagnostics: Diagnostic[];
+  modelNames: Map<SQLTable, string>;
+  // Every model and enum gets @@schema once more than one schema is involved
+  isMultiSchema: boolean;
+  options: PrismaGeneratorOptions;
 }
 
-datasource db {
-  provider = "postgresql"
-  url      = env("DATABASE_URL")
-}
+export class PrismaGenerator {
+  static generatePrismaSchema(
+    parseResult: SQLParseResult,
+    options: PrismaGeneratorOptions = {}
+  ): PrismaGenerationResult {
+    const schemas = [
+      ...new Set([
+        ...parseResult.tables.map((table) => table.schema),
+        ...parseResult.enums.map((enumDef) => enumDef.schema),
+        ...parseResult.views.map((view) => view.schema),
+      ]),
+    ].sort();
+    const isMultiSchema = schemas.length > 1;
+
+    // Views go through the same field conversion as tables, without keys or relations
+    const viewTables = new Map<SQLView, SQLTable>(
+      parseResult.views.map((view) => [
+        view,
+        {
+          name: view.name,
+          schema: view.schema,
+          columns: view.columns ?? [],
+          constraints: [],
+          indexes: [],
+          comment: view.comment,
+          range: view.range,
+        },
+      ])
+    );
 
-`;
+    const context: GenerationContext = {
+      enums: this.convertEnumsToPrismaEnums(parseResult.enums, isMultiSchema),
+      diagnostics: [],
+      modelNames: this.resolveModelNames([
+        ...parseResult.tables,
+        ...viewTables.values(),
+      ]),
+      isMultiSchema,
+      options,
+    };
+    const enums = context.enums;
+    const models = [
+      ...this.convertTablesToModels(parseResult.tables, context),
+      ...this.convertViewsToModels(viewTables, context),
+    ];
+
+    const previewFeatures: string[] = [];
+    if (isMultiSchema) {
+      previewFeatures.push("multiSchema");
+    }
+    if (viewTables.size > 0) {
+      previewFeatures.push("views");
+    }
+    const extensions = parseResult.extensions.filter(
+      (extension) => !BUILTIN_EXTENSIONS.includes(extension.name)
+    );
+    if (extensions.length > 0) {
+      previewFeatures.push("postgresqlExtensions");
+    }
+    const header = this.formatHeader(
+      isMultiSchema ? schemas : [],
+      previewFeatures,
+      extensions
+    );
 
     const enumsString =
       enums.length > 0
@@ -32,31 +149,193 @@ datasource db {
       .map((model) => this.formatModel(model))
       .join("\n\n");
 
-    return header + enumsString + modelsString;
+    return {
+      schema: header + enumsString + modelsString,
+      diagnostics: context.diagnostics,
+    };
+  }
+
+  // Prisma names of the generated models, views and enums, keyed by their SQL definition
+  static resolveEntityNames(
+    parseResult: SQLParseResult
+  ): Map<SQLTable | SQLView | SQLEnum, string> {
+    const names = new Map<SQLTable | SQLView | SQLEnum, string>(
+      this.resolveModelNames<SQLTable | SQLView>([
+        ...parseResult.tables,
+        ...parseResult.views,
+      ])
+    );
+    for (const enumDef of parseResult.enums) {
+      names.set(enumDef, this.toPascalCase(enumDef.name));
+    }
+    return names;
+  }
+
+  private static formatHeader(
+    schemas: string[],
+    previewFeatures: string[],
+    extensions: SQLExtension[]
+  ): string {
+    const generatorEntries: [string, string][] = [
+      ["provider", '"prisma-client-js"'],
+    ];
+    if (previewFeatures.length > 0) {
+      generatorEntries.push(["previewFeatures", this.formatList(previewFeatures)]);
+    }
+
+    const datasourceEntries: [string, string][] = [
+      ["provider", '"postgresql"'],
+      ["url", 'env("DATABASE_URL")'],
+    ];
+    if (schemas.length > 0) {
+      datasourceEntries.push(["schemas", this.formatList(schemas)]);
+    }
+    if (extensions.length > 0) {
+      datasourceEntries.push([
+        "extensions",
+        `[${extensions.map((extension) => this.formatExtension(extension)).join(", ")}]`,
+      ]);
+    }
+
+    return `// Generated Prisma schema
+generator client {
+${this.formatAssignments(generatorEntries)}
+}
+
+datasource db {
+${this.formatAssignments(datasourceEntries)}
+}
+
+`;
+  }
+
+  // citext, postgis(version: "3.4.2"), uuid_ossp(map: "uuid-ossp", schema: "extensions")
+  private static formatExtension(extension: SQLExtension): string {
+    const identifier = extension.name.replace(/[^A-Za-z0-9_]/g, "_");
+    const args: string[] = [];
+    if (identifier !== extension.name) {
+      args.push(`map: "${extension.name}"`);
+    }
+    if (extension.version) {
+      args.push(`version: "${extension.version}"`);
+    }
+    if (extension.schema !== DEFAULT_EXTENSION_SCHEMA) {
+      args.push(`schema: "${extension.schema}"`);
+    }
+    return args.length > 0 ? `${identifier}(${args.join(", ")})` : identifier;
+  }
+
+  // Align "=" the way prisma format does
+  private static formatAssignments(entries: [string, string][]): string {
+    const keyWidth = Math.max(...entries.map(([key]) => key.length));
+    return entries
+      .map(([key, value]) => `  ${key.padEnd(keyWidth)} = ${value}`)
+      .join("\n");
+  }
+
+  private static formatList(values: string[]): string {
+    return `[${values.map((value) => `"${value}"`).join(", ")}]`;
+  }
+
+  // Tables with the same name in different schemas get the schema as a model name prefix
+  private static resolveModelNames<T extends { name: string; schema: string }>(
+    tables: T[]
+  ): Map<T, string> {
+    const modelNames = new Map<T, string>();
+    for (const table of tables) {
+      const baseName = this.toPascalCase(table.name);
+      const isAmbiguous = tables.some(
+        (other) =>
+          other !== table && this.toPascalCase(other.name) === baseName
+      );
+      modelNames.set(
+        table,
+        isAmbiguous ? this.toPascalCase(table.schema) + baseName : baseName
+      );
+    }
+    return modelNames;
+  }
+
+  // Views reuse the model conversion; a view whose columns were not inferred becomes a stub
+  private static convertViewsToModels(
+    viewTables: Map<SQLView, SQLTable>,
+    context: GenerationContext
+  ): PrismaModel[] {
+    return [...viewTables].map(([view, viewTable]) => {
+      const model = this.createBasicModel(viewTable, context);
+      model.isView = true;
+
+      if (!view.columns) {
+        model.documentation = [
+          ...(model.documentation ?? []),
+          "Columns could not be inferred; add the fields selected by:",
+          view.query.replace(/\s+/g, " "),
+        ];
+      } else if (!view.columns.some((column) => column.isUnique)) {
+        context.diagnostics.push({
+          severity: "info",
+          code: "INCOMPLETE_VIEW",
+          message: `View ${view.name} has no unique column; add @unique to a field that identifies its rows`,
+          range: view.range,
+          table: view.name,
+        });
+      }
+      return model;
+    });
+  }
+
+  private static findReferencedTable(
+    constraint: SQLConstraint,
+    tables: SQLTable[]
+  ): SQLTable | undefined {
+    return tables.find(
+      (candidate) =>
+        candidate.name === constraint.referencedTable &&
+        (!constraint.referencedSchema ||
+          candidate.schema === constraint.referencedSchema)
+    );
   }
 
   private static convertTablesToModels(
     tables: SQLTable[],
-    enums: PrismaEnum[] = []
+    context: GenerationContext
   ): PrismaModel[] {
     const models: PrismaModel[] = [];
+    const modelsByTable = new Map<SQLTable, PrismaModel>();
     const relationCounter = new Map<string, number>();
     const fieldNameCounters = new Map<string, Map<string, number>>();
 
     // First pass: create basic models with scalar fields only
     for (const table of tables) {
-      const model = this.createBasicModel(table, enums);
+      const model = this.createBasicModel(table, context);
       models.push(model);
+      modelsByTable.set(table, model);
     }
 
     // Second pass: add relation fields and bidirectional relations
     for (const table of tables) {
-      const model = models.find(
-        (m) => m.name === this.toPascalCase(table.name)
-      )!;
+      const model = modelsByTable.get(table)!;
 
       for (const constraint of table.constraints) {
         if (constraint.type === "FOREIGN KEY" && constraint.referencedTable) {
+          // A relation to a model that doesn't exist would make the whole schema invalid
+          const referencedTable = this.findReferencedTable(constraint, tables);
+          if (!referencedTable) {
+            context.diagnostics.push({
+              severity: "warning",
+              code: "UNRESOLVED_REFERENCE",
+              message: `Foreign key ${table.name}(${constraint.columns.join(
+                ", "
+              )}) references unknown table ${
+                constraint.referencedTable
+              }; the relation field was not generated`,
+              range: constraint.range,
+              table: table.name,
+              column: constraint.columns[0],
+            });
+            continue;
+          }
+
           // Generate a single relation name for this FK constraint
           const relationName = this.generateUniqueRelationName(
             table.name,
@@ -69,82 +348,632 @@ datasource db {
           const relationField = this.createRelationField(
             constraint,
             table,
+            context.modelNames.get(referencedTable)!,
             relationName,
             fieldNameCounters
           );
-          if (relationField) {
-            model.fields.push(relationField);
-          }
+          // Without its forward side, a back-relation would make the schema invalid
+          if (!relationField) continue;
+          model.fields.push(relationField);
 
           // Add back-relation to referenced model using the same relation name
           const backRelationField = this.createBackRelationField(
             constraint,
             table,
+            model.name,
             relationName,
             fieldNameCounters
           );
           if (backRelationField) {
-            const referencedModel = models.find(
-              (m) => m.name === this.toPascalCase(constraint.referencedTable!)
-            )!;
-            if (referencedModel) {
-              referencedModel.fields.push(backRelationField);
-            }
+            modelsByTable.get(referencedTable)!.fields.push(backRelationField);
           }
         }
       }
     }
 
+    // Prisma rejects models without a unique criteria; like `prisma db pull`, keep them but mark them ignored
+    for (const table of tables) {
+      const model = modelsByTable.get(table)!;
+      if (this.hasUniqueCriteria(model)) continue;
+
+      model.attributes.push("@@ignore");
+      for (const field of models.flatMap((other) => other.fields)) {
+        if (field.type === model.name) {
+          field.attributes.push("@ignore");
+        }
+      }
+      const isInherited = table.columns.some(
+        (column) => column.origin?.via === "INHERITS"
+      );
+      context.diagnostics.push({
+        severity: "warning",
+        code: "LOSSY_MAPPING",
+        message: `Table ${table.name} has no primary key or unique NOT NULL column${
+          isInherited
+            ? " (PostgreSQL does not inherit the parent's primary key)"
+            : ""
+        }, so Prisma cannot identify its rows; the model was marked @@ignore`,
+        range: table.range,
+        table: table.name,
+      });
+    }
+
     return models;
   }
 
+  // @id, @@id, or @unique / @@unique over required fields only
+  private static hasUniqueCriteria(model: PrismaModel): boolean {
+    const isRequired = (fieldName: string) =>
+      model.fields.some((field) => field.name === fieldName && !field.isOptional);
+    return (
+      model.fields.some((field) =>
+        field.attributes.some(
+          (attribute) =>
+            attribute.startsWith("@id") ||
+            (attribute.startsWith("@unique") && !field.isOptional)
+        )
+      ) ||
+      model.attributes.some((attribute) => {
+        if (attribute.startsWith("@@id")) return true;
+        if (!attribute.startsWith("@@unique")) return false;
+        // @@unique([a, b(sort: Desc)]) lists field names, some with arguments
+        const fieldList = attribute.match(/\[([^\]]*)\]/)?.[1] ?? "";
+        return fieldList
+          .replace(/\([^)]*\)/g, "")
+          .split(",")
+          .every((fieldName) => isRequired(fieldName.trim()));
+      })
+    );
+  }
+
   private static createBasicModel(
     table: SQLTable,
-    enums: PrismaEnum[] = []
+    context: GenerationContext
   ): PrismaModel {
-    const modelName = this.toPascalCase(table.name);
+    const modelName = context.modelNames.get(table)!;
     const fields: PrismaField[] = [];
 
     // Convert columns to scalar fields only
     for (const column of table.columns) {
-      const field = this.convertColumnToField(column, table, enums);
+      const field = this.convertColumnToField(column, table, context);
       fields.push(field);
     }
 
     const attributes: string[] = [];
+    // Single-column keys were folded into the column by the parser and carry a field-level @id
+    const primaryKey = table.constraints.find(
+      (constraint) =>
+        constraint.type === "PRIMARY KEY" && constraint.columns.length > 1
+    );
+    if (primaryKey) {
+      attributes.push(this.formatCompositeId(primaryKey, table, fields));
+    }
+    for (const constraint of table.constraints) {
+      if (constraint.type === "UNIQUE") {
+        this.applyUniqueConstraint(constraint, table, fields, attributes, context);
+      }
+    }
+    for (const index of table.indexes) {
+      this.applyIndex(index, table, fields, attributes, context);
+    }
+    const documentation = this.commentLines(table.comment);
+    if (table.partitionBy) {
+      // Partitions share the parent's columns, so only the parent is modeled
+      documentation.push(`Partitioned by ${table.partitionBy}`);
+    }
+    if (table.inherits?.length) {
+      const parents = table.inherits.join(", ");
+      documentation.push(`Inherits from ${parents}`);
+      context.diagnostics.push({
+        severity: "info",
+        code: "LOSSY_MAPPING",
+        message: `${table.name} inherits from ${parents}; Prisma has no table inheritance, so the inherited columns are repeated and queries on the parent still return ${table.name} rows`,
+        range: table.range,
+        table: table.name,
+      });
+    }
+    for (const constraint of table.constraints) {
+      if (constraint.type === "CHECK") {
+        this.applyCheckConstraint(
+          constraint,
+          table,
+          fields,
+          documentation,
+          context
+        );
+      }
+    }
     if (table.name !== modelName.toLowerCase()) {
       attributes.push(`@@map("${table.name}")`);
     }
+    if (context.isMultiSchema) {
+      attributes.push(`@@schema("${table.schema}")`);
+    }
 
     return {
       name: modelName,
       fields,
       attributes,
+      documentation,
     };
   }
 
+  private static formatCompositeId(
+    constraint: SQLConstraint,
+    table: SQLTable,
+    fields: PrismaField[]
+  ): string {
+    // Unknown key columns were already reported by the parser
+    const fieldNames = constraint.columns
+      .map((columnName) =>
+        table.columns.findIndex((column) => column.name === columnName)
+      )
+      .filter((index) => index !== -1)
+      .map((index) => fields[index].name);
+    const mapArgument = this.formatMapArgument(
+      constraint.name,
+      table,
+      constraint.columns,
+      "pkey"
+    );
+    return `@@id([${fieldNames.join(", ")}]${
+      mapArgument ? `, ${mapArgument}` : ""
+    })`;
+  }
+
+  // map: "name" for a constraint or index whose name differs from the one Prisma derives:
+  // {table}_pkey, {table}_{columns}_key, {table}_{columns}_fkey or {table}_{columns}_idx
+  private static formatMapArgument(
+    name: string | undefined,
+    table: SQLTable,
+    columns: string[],
+    suffix: "pkey" | "key" | "fkey" | "idx"
+  ): string | undefined {
+    if (!name) return undefined;
+    const prefix =
+      suffix === "pkey" ? table.name : `${table.name}_${columns.join("_")}`;
+    const defaultName = `${prefix.slice(
+      0,
+      MAX_IDENTIFIER_LENGTH - suffix.length - 1
+    )}_${suffix}`;
+    return name === defaultName ? undefined : `map: "${name}"`;
+  }
+
+  // Single-column UNIQUE becomes a field-level @unique, composites become @@unique
+  private static applyUniqueConstraint(
+    constraint: SQLConstraint,
+    table: SQLTable,
+    fields: PrismaField[],
+    attributes: string[],
+    context: GenerationContext
+  ): void {
+    // Fields are created in column order, so the column index locates the field
+    const columnIndexes = constraint.columns.map((columnName) =>
+      table.columns.findIndex((column) => column.name === columnName)
+    );
+    const missingColumn = constraint.columns.find(
+      (_columnName, index) => columnIndexes[index] === -1
+    );
+    if (missingColumn) {
+      context.diagnostics.push({
+        severity: "warning",
+        code: "UNRESOLVED_REFERENCE",
+        message: `UNIQUE constraint on ${table.name} references unknown column ${missingColumn} and was dropped`,
+        range: constraint.range,
+        table: table.name,
+        column: missingColumn,
+      });
+      return;
+    }
+
+    const mapArgument = this.formatMapArgument(
+      constraint.name,
+      table,
+      constraint.columns,
+      "key"
+    );
+
+    if (columnIndexes.length === 1) {
+      const field = fields[columnIndexes[0]];
+      const isAlreadyUnique = field.attributes.some(
+        (attribute) =>
+          attribute.startsWith("@id") || attribute.startsWith("@unique")
+      );
+      if (!isAlreadyUnique) {
+        field.attributes.push(
+          mapArgument ? `@unique(${mapArgument})` : "@unique"
+        );
+      }
+      return;
+    }
+
+    const fieldNames = columnIndexes.map((index) => fields[index].name);
+    attributes.push(
+      `@@unique([${fieldNames.join(", ")}]${
+        mapArgument ? `, ${mapArgument}` : ""
+      })`
+    );
+  }
+
+  // Prisma cannot enforce CHECK constraints: they are kept as /// comments on the
+  // field (or the model when several columns are involved), or optionally become an enum
+  private static applyCheckConstraint(
+    constraint: SQLConstraint,
+    table: SQLTable,
+    fields: PrismaField[],
+    documentation: string[],
+    context: GenerationContext
+  ): void {
+    const columnIndex =
+      constraint.columns.length === 1
+        ? table.columns.findIndex(
+            (column) => column.name === constraint.columns[0]
+          )
+        : -1;
+    const field = columnIndex !== -1 ? fields[columnIndex] : undefined;
+
+    if (
+      field &&
+      context.options.checkConstraintsAsEnums &&
+      this.convertCheckToEnum(
+        constraint,
+        table,
+        table.columns[columnIndex],
+        field,
+        context
+      )
+    ) {
+      return;
+    }
+
+    const expression = (constraint.expression ?? "").replace(/\s+/g, " ");
+    const comment = constraint.name
+      ? `CONSTRAINT ${constraint.name} CHECK (${expression})`
+      : `CHECK (${expression})`;
+    if (field) {
+      field.documentation = [...(field.documentation ?? []), comment];
+    } else {
+      documentation.push(comment);
+    }
+    context.diagnostics.push({
+      severity: "warning",
+      code: "LOSSY_MAPPING",
+      message: `CHECK constraint ${
+        constraint.name ? `${constraint.name} ` : ""
+      }on ${table.name} is not enforced by Prisma; it was kept as a /// comment`,
+      range: constraint.range,
+      table: table.name,
+      column: field ? constraint.columns[0] : undefined,
+    });
+  }
+
+  // Returns false when the value list cannot become a Prisma enum
+  private static convertCheckToEnum(
+    constraint: SQLConstraint,
+    table: SQLTable,
+    column: SQLColumn,
+    field: PrismaField,
+    context: GenerationContext
+  ): boolean {
+    const values = constraint.allowedValues;
+    if (
+      !values ||
+      field.type !== "String" ||
+      !values.every((value) => /^[A-Za-z][A-Za-z0-9_]*$/.test(value))
+    ) {
+      return false;
+    }
+
+    const enumName =
+      context.modelNames.get(table)! + this.toPascalCase(column.name);
+    const isNameTaken =
+      context.enums.some((enumDef) => enumDef.name === enumName) ||
+      [...context.modelNames.values()].includes(enumName);
+    if (isNameTaken) return false;
+
+    context.enums.push({
+      name: enumName,
+      values: [...new Set(values)],
+      attributes: context.isMultiSchema ? [`@@schema("${table.schema}")`] : [],
+    });
+
+    // The enum replaces the native type, and a literal default becomes an enum value
+    const defaultLiteral = column.defaultValue
+      ? this.literalDefault(column.defaultValue)
+      : undefined;
+    field.type = enumName;
+    field.attributes = field.attributes
+      .filter((attribute) => !attribute.startsWith("@db."))
+      .map((attribute) =>
+        attribute.startsWith("@default(") &&
+        defaultLiteral !== undefined &&
+        values.includes(defaultLiteral)
+          ? `@default(${defaultLiteral})`
+          : attribute
+      );
+
+    context.diagnostics.push({
+      severity: "info",
+      code: "LOSSY_MAPPING",
+      message: `CHECK constraint on ${table.name}.${column.name} was converted to enum ${enumName}; migrating will create a PostgreSQL enum type`,
+      range: constraint.range,
+      table: table.name,
+      column: column.name,
+    });
+    return true;
+  }
+
+  // CREATE INDEX becomes @@index, or @@unique / @unique for unique indexes
+  private static applyIndex(
+    index: SQLIndex,
+    table: SQLTable,
+    fields: PrismaField[],
+    attributes: string[],
+    context: GenerationContext
+  ): void {
+    const label = index.name ?? `on ${table.name}`;
+    const warn = (code: DiagnosticCode, message: string) =>
+      context.diagnostics.push({
+        severity: "warning",
+        code,
+        message,
+        range: index.range,
+        table: table.name,
+      });
+
+    const expressionColumn = index.columns.find((column) => column.expression);
+    if (expressionColumn) {
+      warn(
+        "LOSSY_MAPPING",
+        `Index ${label} is on the expression ${expressionColumn.expression}, which Prisma cannot represent; it was dropped`
+      );
+      return;
+    }
+    if (index.where && index.isUnique) {
+      // Without its predicate the constraint would reject rows the database accepts
+      warn(
+        "LOSSY_MAPPING",
+        `Partial unique index ${label} (WHERE ${index.where}) cannot be represented in Prisma and was dropped`
+      );
+      return;
+    }
+    if (index.where) {
+      warn(
+        "LOSSY_MAPPING",
+        `Index ${label} is partial; its WHERE ${index.where} predicate was dropped`
+      );
+    }
+
+    const columnIndexes = index.columns.map((indexColumn) =>
+      table.columns.findIndex((column) => column.name === indexColumn.column)
+    );
+    const missingColumn = index.columns.find(
+      (_indexColumn, position) => columnIndexes[position] === -1
+    );
+    if (missingColumn) {
+      warn(
+        "UNRESOLVED_REFERENCE",
+        `Index ${label} references unknown column ${missingColumn.column} and was dropped`
+      );
+      return;
+    }
+
+    const type = index.method ? INDEX_TYPES[index.method] : undefined;
+    if (index.method && !type) {
+      warn(
+        "LOSSY_MAPPING",
+        `Index ${label} uses the ${index.method} access method, which Prisma does not support; a B-tree index is emitted instead`
+      );
+    }
+    // Prisma only accepts ops on GiST, SP-GiST, GIN and BRIN indexes
+    const supportsOps = type !== undefined && !["BTree", "Hash"].includes(type);
+
+    const fieldArguments = index.columns.map((indexColumn, position) => {
+      const fieldName = fields[columnIndexes[position]].name;
+      const fieldOptions: string[] = [];
+      if (indexColumn.sort === "DESC") {
+        fieldOptions.push("sort: Desc");
+      }
+      if (indexColumn.operatorClass && supportsOps && !index.isUnique) {
+        const operatorClass =
+          OPERATOR_CLASSES[indexColumn.operatorClass.toLowerCase()] ??
+          `raw("${indexColumn.operatorClass}")`;
+        fieldOptions.push(`ops: ${operatorClass}`);
+      } else if (indexColumn.operatorClass) {
+        warn(
+          "LOSSY_MAPPING",
+          `Operator class ${indexColumn.operatorClass} on index ${label} cannot be expressed for this index type and was dropped`
+        );
+      }
+      return fieldOptions.length
+        ? `${fieldName}(${fieldOptions.join(", ")})`
+        : fieldName;
+    });
+
+    const indexColumnNames = index.columns.map(
+      (indexColumn) => indexColumn.column!
+    );
+
+    if (index.isUnique) {
+      // A plain single-column unique index reads best as a field-level @unique
+      if (
+        fieldArguments.length === 1 &&
+        fieldArguments[0] === fields[columnIndexes[0]].name
+      ) {
+        this.applyUniqueConstraint(
+          {
+            type: "UNIQUE",
+            name: index.name,
+            columns: [index.columns[0].column!],
+            range: index.range,
+          },
+          table,
+          fields,
+          attributes,
+          context
+        );
+        return;
+      }
+      const mapArgument = this.formatMapArgument(
+        index.name,
+        table,
+        indexColumnNames,
+        "key"
+      );
+      attributes.push(
+        `@@unique([${fieldArguments.join(", ")}]${
+          mapArgument ? `, ${mapArgument}` : ""
+        })`
+      );
+      return;
+    }
+
+    const indexArguments = [`[${fieldArguments.join(", ")}]`];
+    const mapArgument = this.formatMapArgument(
+      index.name,
+      table,
+      indexColumnNames,
+      "idx"
+    );
+    if (mapArgument) {
+      indexArguments.push(mapArgument);
+    }
+    if (type && type !== "BTree") {
+      indexArguments.push(`type: ${type}`);
+    }
+    attributes.push(`@@index(${indexArguments.join(", ")})`);
+  }
+
   private static convertColumnToField(
     column: SQLTable["columns"][0],
-    _table: SQLTable,
-    enums: PrismaEnum[] = []
+    table: SQLTable,
+    context: GenerationContext
   ): PrismaField {
+    const { diagnostics } = context;
     const name = this.toCamelCase(column.name);
-    const type = this.mapSQLTypeToPrismaType(
-      column.type,
-      column.isEnum ? enums : []
-    );
+    // Composite types have no Prisma equivalent
+    const compositeMapping = column.compositeType
+      ? context.options.compositeTypesAsJson
+        ? "Json"
+        : `Unsupported("${column.compositeType.name}")`
+      : undefined;
+    const mappedType =
+      compositeMapping ??
+      this.mapSQLTypeToPrismaType(
+        column.type,
+        column.isEnum ? context.enums : []
+      );
+    const type = mappedType ?? "String";
     const attributes: string[] = [];
+    const isArray = (column.arrayDimensions ?? 0) > 0;
+
+    if ((column.arrayDimensions ?? 0) > 1) {
+      diagnostics.push({
+        severity: "warning",
+        code: "LOSSY_MAPPING",
+        message: `${table.name}.${column.name} is a ${column.arrayDimensions}-dimensional array; Prisma lists are one-dimensional, so it was emitted as ${type}[]`,
+        range: column.range,
+        table: table.name,
+        column: column.name,
+      });
+    }
+
+    if (compositeMapping) {
+      diagnostics.push({
+        severity: "warning",
+        code: "LOSSY_MAPPING",
+        message: `${table.name}.${column.name} uses the composite type ${column.compositeType!.name} and was emitted as ${compositeMapping}`,
+        range: column.range,
+        table: table.name,
+        column: column.name,
+      });
+    } else if (!mappedType) {
+      diagnostics.push({
+        severity: "warning",
+        code: "UNKNOWN_TYPE",
+        message: `Unknown type ${column.type} on ${table.name}.${column.name} was mapped to String`,
+        range: column.range,
+        table: table.name,
+        column: column.name,
+      });
+    } else {
+      const lossyReason = this.describeLossyMapping(column.type);
+      if (lossyReason) {
+        diagnostics.push({
+          severity: "warning",
+          code: "LOSSY_MAPPING",
+          message: `${table.name}.${column.name}: ${lossyReason}`,
+          range: column.range,
+          table: table.name,
+          column: column.name,
+        });
+      }
+    }
+
+    // nextval() defaults the parser could not tie to a SERIAL-style sequence of this column
+    let sequenceDefault: string | undefined;
+    if (column.defaultValue && /^(pg_catalog\.)?nextval\(/i.test(column.defaultValue)) {
+      sequenceDefault = this.formatDbGenerated(column.defaultValue);
+      diagnostics.push({
+        severity: "info",
+        code: "UNSUPPORTED_DEFAULT",
+        message: `${table.name}.${column.name} draws from a sequence it does not own (${column.defaultValue}), so it was emitted with dbgenerated() instead of autoincrement()`,
+        range: column.range,
+        table: table.name,
+        column: column.name,
+      });
+    }
+
+    // Prisma has no generated columns; dbgenerated() at least lets creates omit the value
+    const generatedExpression = column.generatedExpression?.replace(/\s+/g, " ");
+    if (generatedExpression) {
+      diagnostics.push({
+        severity: "warning",
+        code: "LOSSY_MAPPING",
+        message: `${table.name}.${column.name} is generated by the database (${generatedExpression}); it was emitted with dbgenerated(), but Prisma Client still allows writing it`,
+        range: column.range,
+        table: table.name,
+        column: column.name,
+      });
+    }
+
+    const sequenceOptions = this.describeSequenceOptions(column);
+    if (sequenceOptions) {
+      diagnostics.push({
+        severity: "info",
+        code: "LOSSY_MAPPING",
+        message: `${table.name}.${column.name}: autoincrement() cannot express that the sequence ${sequenceOptions}; Prisma Migrate would create it with the defaults`,
+        range: column.range,
+        table: table.name,
+        column: column.name,
+      });
+    }
+
+    const uuidFunction = column.defaultValue?.match(UUID_FUNCTION_PATTERN)?.[0];
+    // Named single-column keys are also kept as constraints
+    const primaryKeyName = table.constraints.find(
+      (constraint) =>
+        constraint.type === "PRIMARY KEY" &&
+        constraint.columns.length === 1 &&
+        constraint.columns[0] === column.name
+    )?.name;
+    const idMapArgument = this.formatMapArgument(
+      primaryKeyName,
+      table,
+      [column.name],
+      "pkey"
+    );
+    const id = idMapArgument ? `@id(${idMapArgument})` : "@id";
 
     if (column.isPrimaryKey) {
-      if (column.type === "SERIAL" || column.type === "BIGSERIAL") {
-        attributes.push("@id @default(autoincrement())");
-      } else if (
-        column.type === "UUID" &&
-        column.defaultValue?.includes("gen_random_uuid")
-      ) {
-        attributes.push('@id @default(dbgenerated("gen_random_uuid()"))');
+      if (AUTOINCREMENT_TYPES.includes(column.type)) {
+        attributes.push(`${id} @default(autoincrement())`);
+      } else if (sequenceDefault) {
+        attributes.push(`${id} ${sequenceDefault}`);
+      } else if (column.type === "UUID" && uuidFunction) {
+        attributes.push(`${id} ${this.formatDbGenerated(uuidFunction)}`);
       } else {
-        attributes.push("@id");
+        attributes.push(id);
       }
     }
 
@@ -152,23 +981,49 @@ datasource db {
       attributes.push("@unique");
     }
 
-    if (column.defaultValue && !column.isPrimaryKey) {
+    if (generatedExpression) {
+      attributes.push(this.formatDbGenerated(generatedExpression));
+    } else if (!column.isPrimaryKey && AUTOINCREMENT_TYPES.includes(column.type)) {
+      attributes.push("@default(autoincrement())");
+    } else if (sequenceDefault && !column.isPrimaryKey) {
+      attributes.push(sequenceDefault);
+    } else if (column.defaultValue && !column.isPrimaryKey && isArray) {
+      attributes.push(this.formatArrayDefault(column, type, table, context));
+    } else if (column.defaultValue && column.compositeType) {
+      // Row constructors such as ROW('Main St', 'Springfield') can only be kept as database expressions
+      attributes.push(this.formatDbGenerated(column.defaultValue));
+    } else if (column.defaultValue && !column.isPrimaryKey) {
       const upperDefault = column.defaultValue.toUpperCase();
+      // The value of 'active', 'it''s' or pg_dump's 'member'::character varying, without quotes and cast
+      const literal = this.literalDefault(column.defaultValue);
       if (
         upperDefault === "CURRENT_TIMESTAMP" ||
         upperDefault === "NOW()" ||
         upperDefault === "(NOW())"
       ) {
         attributes.push("@default(now())");
-      } else if (column.defaultValue.includes("gen_random_uuid")) {
-        attributes.push('@default(dbgenerated("gen_random_uuid()"))');
+      } else if (uuidFunction) {
+        attributes.push(this.formatDbGenerated(uuidFunction));
+      } else if (
+        column.isEnum &&
+        literal !== undefined &&
+        /^[A-Za-z][A-Za-z0-9_]*$/.test(literal)
+      ) {
+        attributes.push(`@default(${literal})`);
       } else if (
-        column.defaultValue === "true" ||
-        column.defaultValue === "false"
+        type === "Boolean" &&
+        /^(true|false)$/i.test(literal ?? column.defaultValue)
       ) {
-        attributes.push(`@default(${column.defaultValue})`);
-      } else if (!isNaN(Number(column.defaultValue))) {
-        attributes.push(`@default(${column.defaultValue})`);
+        attributes.push(
+          `@default(${(literal ?? column.defaultValue).toLowerCase()})`
+        );
+      } else if (
+        NUMERIC_TYPES.includes(type) &&
+        literal !== undefined &&
+        literal.trim() !== "" &&
+        !isNaN(Number(literal))
+      ) {
+        attributes.push(`@default(${literal.trim()})`);
       } else if (
         upperDefault.includes("NOW()") ||
         upperDefault.includes("CURRENT_TIMESTAMP")
@@ -180,9 +1035,23 @@ datasource db {
       ) {
         // Handle PostgreSQL JSON/JSONB type casts with dbgenerated()
         const cleanedValue = column.defaultValue.replace(/^\(|\)$/g, ""); // Remove outer parentheses if present
-        attributes.push(`@default(dbgenerated("${cleanedValue}"))`);
+        attributes.push(this.formatDbGenerated(cleanedValue));
+      } else if (type === "String" && literal !== undefined) {
+        attributes.push(`@default(${this.formatString(literal)})`);
+      } else if (literal !== undefined) {
+        // Literals of other types (dates, bytes, ...) keep their SQL spelling, which the database casts
+        attributes.push(this.formatDbGenerated(column.defaultValue));
       } else {
-        attributes.push(`@default("${column.defaultValue}")`);
+        // Anything other than a literal is a database expression Prisma can't evaluate
+        diagnostics.push({
+          severity: "warning",
+          code: "UNSUPPORTED_DEFAULT",
+          message: `Default ${column.defaultValue} on ${table.name}.${column.name} was emitted as a string literal and may need dbgenerated()`,
+          range: column.range,
+          table: table.name,
+          column: column.name,
+        });
+        attributes.push(`@default(${this.formatString(column.defaultValue)})`);
       }
     }
 
@@ -197,16 +1066,9 @@ datasource db {
       attributes.push(`@map("${column.name}")`);
     }
 
-    // Add @db.Uuid for UUID columns in PostgreSQL
-    if (column.type === "UUID") {
-      attributes.push("@db.Uuid");
-    }
-
-    // Add @db.JsonB for JSON/JSONB columns in PostgreSQL
-    if (column.type === "JSONB") {
-      attributes.push("@db.JsonB");
-    } else if (column.type === "JSON") {
-      attributes.push("@db.Json");
+    const nativeType = column.isEnum ? undefined : this.nativeTypeAttribute(column);
+    if (nativeType) {
+      attributes.push(nativeType);
     }
 
     // Fixed optionality: FK fields should be optional based on column.nullable only
@@ -214,14 +1076,181 @@ datasource db {
       name,
       type,
       attributes,
-      isOptional: column.nullable && !column.isPrimaryKey,
-      isArray: false,
+      // Prisma lists cannot be optional; a NULL array is read back as an empty list
+      isOptional: column.nullable && !column.isPrimaryKey && !isArray,
+      isArray,
+      documentation: [
+        ...this.commentLines(column.comment),
+        ...(column.origin
+          ? [
+              column.origin.via === "INHERITS"
+                ? `Inherited from ${column.origin.table}`
+                : `Copied from ${column.origin.table} (LIKE)`,
+            ]
+          : []),
+        ...(column.domain ? [`Domain: ${column.domain}`] : []),
+        ...(sequenceOptions ? [`Sequence ${sequenceOptions}`] : []),
+        ...(generatedExpression
+          ? [
+              `Generated column: computed by the database as ${generatedExpression}. Read-only; do not write it through Prisma Client`,
+            ]
+          : []),
+        ...(column.compositeType
+          ? [
+              `Composite type ${column.compositeType.name} ${column.compositeType.definition}`,
+            ]
+          : []),
+      ],
     };
   }
 
+  // e.g. "starts at 1000 and increments by 10"
+  private static describeSequenceOptions(column: SQLColumn): string | undefined {
+    const { startWith, incrementBy } = column.sequenceOptions ?? {};
+    const parts = [
+      ...(startWith !== undefined ? [`starts at ${startWith}`] : []),
+      ...(incrementBy !== undefined ? [`increments by ${incrementBy}`] : []),
+    ];
+    return parts.length > 0 ? parts.join(" and ") : undefined;
+  }
+
+  // '{}', '{a,b}'::text[] and ARRAY[1, 2] become list defaults; anything else is left to the database
+  private static formatArrayDefault(
+    column: SQLColumn,
+    type: string,
+    table: SQLTable,
+    context: GenerationContext
+  ): string {
+    const elements = this.arrayDefaultElements(column.defaultValue!);
+
+    const isNumeric = NUMERIC_TYPES.includes(type);
+    const isValid = elements?.every((element) =>
+      isNumeric
+        ? !isNaN(Number(element))
+        : type === "Boolean"
+        ? /^(true|false)$/i.test(element)
+        : type !== "String"
+        ? /^[A-Za-z][A-Za-z0-9_]*$/.test(element)
+        : true
+    );
+    if (elements && isValid) {
+      const formatted = elements.map((element) =>
+        type === "String"
+          ? JSON.stringify(element)
+          : type === "Boolean"
+          ? element.toLowerCase()
+          : element
+      );
+      return `@default([${formatted.join(", ")}])`;
+    }
+
+    context.diagnostics.push({
+      severity: "warning",
+      code: "UNSUPPORTED_DEFAULT",
+      message: `Array default ${column.defaultValue} on ${table.name}.${column.name} was emitted with dbgenerated()`,
+      range: column.range,
+      table: table.name,
+      column: column.name,
+    });
+    return this.formatDbGenerated(column.defaultValue!);
+  }
+
+  private static formatDbGenerated(expression: string): string {
+    return `@default(dbgenerated(${this.formatString(expression)}))`;
+  }
+
+  // A Prisma string literal; backslashes are escaped before quotes so neither changes the value
+  private static formatString(value: string): string {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  }
+
+  // Tokens of a default expression up to its top-level :: cast, if any
+  private static defaultTokens(defaultValue: string): SQLNode[] {
+    return this.withoutCast(
+      SQLLexer.buildStatements(SQLLexer.tokenize(defaultValue))[0]?.nodes ?? []
+    );
+  }
+
+  private static withoutCast(nodes: SQLNode[]): SQLNode[] {
+    let bracketDepth = 0;
+    const castIndex = nodes.findIndex((node) => {
+      if (SQLCursor.isPunctuation(node, "[")) bracketDepth++;
+      if (SQLCursor.isPunctuation(node, "]")) bracketDepth--;
+      return bracketDepth === 0 && node.type === "operator" && node.value === "::";
+    });
+    return castIndex === -1 ? nodes : nodes.slice(0, castIndex);
+  }
+
+  // The decoded value of a string or number literal default (cast dropped), including pg_dump's (-1);
+  // undefined for expressions
+  private static literalDefault(defaultValue: string): string | undefined {
+    let nodes = this.defaultTokens(defaultValue);
+    if (nodes.length === 1 && SQLCursor.isGroup(nodes[0])) {
+      nodes = this.withoutCast(nodes[0].children);
+    }
+    const [first, second] = nodes;
+    if (nodes.length === 1 && (first.type === "string" || first.type === "number")) {
+      return first.value;
+    }
+    const isNegativeNumber =
+      nodes.length === 2 &&
+      first.type === "operator" &&
+      first.value === "-" &&
+      second.type === "number";
+    return isNegativeNumber ? `-${second.value}` : undefined;
+  }
+
+  // Elements of '{a,b}' and ARRAY['a', 'b'] literals (casts dropped); undefined for anything else
+  private static arrayDefaultElements(defaultValue: string): string[] | undefined {
+    const nodes = this.defaultTokens(defaultValue);
+
+    const arrayLiteral =
+      nodes.length === 1 && nodes[0].type === "string"
+        ? nodes[0].value.match(/^\{(.*)\}$/s)
+        : null;
+    if (arrayLiteral) {
+      if (/["{}]/.test(arrayLiteral[1])) return undefined;
+      return arrayLiteral[1]
+        .split(",")
+        .map((element) => element.trim())
+        .filter((element) => element.length > 0);
+    }
+
+    const isArrayConstructor =
+      SQLCursor.isWord(nodes[0], "ARRAY") &&
+      SQLCursor.isPunctuation(nodes[1], "[") &&
+      SQLCursor.isPunctuation(nodes[nodes.length - 1], "]");
+    if (!isArrayConstructor) return undefined;
+
+    const elements: string[] = [];
+    for (const part of SQLCursor.splitByCommas(nodes.slice(2, -1))) {
+      const element = this.withoutCast(part);
+      const [first, second] = element;
+      if (element.length === 1 && (first.type === "string" || first.type === "number")) {
+        elements.push(first.value);
+      } else if (
+        element.length === 1 &&
+        (SQLCursor.isWord(first, "TRUE") || SQLCursor.isWord(first, "FALSE"))
+      ) {
+        elements.push((first as SQLToken).value);
+      } else if (
+        element.length === 2 &&
+        first.type === "operator" &&
+        first.value === "-" &&
+        second.type === "number"
+      ) {
+        elements.push(`-${second.value}`);
+      } else {
+        return undefined;
+      }
+    }
+    return elements;
+  }
+
   private static createRelationField(
     constraint: SQLTable["constraints"][0],
     table: SQLTable,
+    referencedModelName: string,
     relationName: string,
     fieldNameCounters: Map<string, Map<string, number>>
   ): PrismaField | null {
@@ -232,7 +1261,6 @@ datasource db {
     )
       return null;
 
-    const referencedModelName = this.toPascalCase(constraint.referencedTable);
     const fieldName = this.generateUniqueFieldName(
       table.name,
       constraint.referencedTable,
@@ -249,28 +1277,60 @@ datasource db {
       this.toCamelCase(col)
     );
 
+    const isOptional = this.isRelationOptional(constraint, table);
+    const referentialActions = this.formatReferentialActions(
+      constraint,
+      isOptional
+    );
+    const mapArgument = this.formatMapArgument(
+      constraint.name,
+      table,
+      constraint.columns,
+      "fkey"
+    );
+
     return {
       name: fieldName,
       type: referencedModelName,
       attributes: [
         `@relation("${relationName}", fields: [${foreignKeyFields.join(
           ", "
-        )}], references: [${referencedFields.join(", ")}])`,
+        )}], references: [${referencedFields.join(
+          ", "
+        )}]${referentialActions}${mapArgument ? `, ${mapArgument}` : ""})`,
       ],
-      isOptional: this.isRelationOptional(constraint, table),
+      isOptional,
       isArray: false,
     };
   }
 
+  // Prisma defaults to onDelete: SetNull (optional) / Restrict (required) and onUpdate: Cascade, while
+  // PostgreSQL defaults to NO ACTION, so every action that differs from Prisma's default is written out
+  private static formatReferentialActions(
+    constraint: SQLConstraint,
+    isOptional: boolean
+  ): string {
+    const actions: string[] = [];
+    const onDelete = REFERENTIAL_ACTIONS[constraint.onDelete ?? "NO ACTION"];
+    const onUpdate = REFERENTIAL_ACTIONS[constraint.onUpdate ?? "NO ACTION"];
+    if (onDelete !== (isOptional ? "SetNull" : "Restrict")) {
+      actions.push(`onDelete: ${onDelete}`);
+    }
+    if (onUpdate !== "Cascade") {
+      actions.push(`onUpdate: ${onUpdate}`);
+    }
+    return actions.map((action) => `, ${action}`).join("");
+  }
+
   private static createBackRelationField(
     constraint: SQLTable["constraints"][0],
     table: SQLTable,
+    sourceModelName: string,
     relationName: string,
-    fieldNameCounters: Map<string, Map<string, number>>
+    _fieldNameCounters: Map<string, Map<string, number>>
   ): PrismaField | null {
     if (!constraint.referencedTable || !constraint.columns.length) return null;
 
-    const sourceModelName = this.toPascalCase(table.name);
     // If there are multiple FKs from the same source table to the same referenced table,
     // disambiguate the back-relation name using the FK column context, e.g. postsAsAuthor, postsAsCoauthor
     const fkCountToSameTarget = table.constraints.filter(
@@ -399,10 +1459,11 @@ datasource db {
     });
   }
 
+  // Returns undefined for types with no known Prisma equivalent
   private static mapSQLTypeToPrismaType(
     sqlType: string,
     enums: PrismaEnum[] = []
-  ): string {
+  ): string | undefined {
     // First check if this is an enum type by comparing with enum names
     const expectedEnumName = this.toPascalCase(sqlType);
     const matchingEnum = enums.find(
@@ -412,45 +1473,119 @@ datasource db {
       return matchingEnum.name;
     }
 
+    // The parser gives built-in types their canonical name, e.g. VARCHAR for CHARACTER VARYING
     const type = sqlType.toUpperCase();
 
     switch (type) {
       case "SERIAL":
-      case "BIGSERIAL":
+      case "SMALLSERIAL":
       case "INTEGER":
-      case "INT":
-      case "BIGINT":
+      case "SMALLINT":
         return "Int";
+      case "BIGSERIAL":
+      case "BIGINT":
+        return "BigInt";
       case "VARCHAR":
       case "TEXT":
       case "CHAR":
+      case "CITEXT":
+      case "UUID":
+      case "XML":
+      case "INET":
+      case "BIT":
+      case "VARBIT":
         return "String";
       case "BOOLEAN":
-      case "BOOL":
         return "Boolean";
       case "TIMESTAMP":
       case "TIMESTAMPTZ":
       case "DATE":
       case "TIME":
+      case "TIMETZ":
         return "DateTime";
-      case "DECIMAL":
       case "NUMERIC":
-      case "FLOAT":
-      case "DOUBLE":
+      case "MONEY":
+        return "Decimal";
       case "REAL":
+      case "DOUBLE PRECISION":
         return "Float";
-      case "UUID":
-        return "String";
       case "JSON":
       case "JSONB":
         return "Json";
+      case "BYTEA":
+        return "Bytes";
+      case "INTERVAL":
+        return 'Unsupported("interval")';
       default:
-        return "String";
+        return undefined;
+    }
+  }
+
+  // The @db attribute for columns whose PostgreSQL type differs from the Prisma scalar's default
+  // (Int is integer, BigInt bigint, Float double precision, Decimal numeric(65,30), String text, DateTime timestamp(3))
+  private static nativeTypeAttribute(column: SQLColumn): string | undefined {
+    const { length, precision, scale } = column;
+    switch (column.type.toUpperCase()) {
+      case "SMALLINT":
+      case "SMALLSERIAL":
+        return "@db.SmallInt";
+      case "REAL":
+        return "@db.Real";
+      case "NUMERIC":
+        return precision !== undefined
+          ? `@db.Decimal(${precision}, ${scale ?? 0})`
+          : "@db.Decimal";
+      case "MONEY":
+        return "@db.Money";
+      case "VARCHAR":
+        return length !== undefined ? `@db.VarChar(${length})` : "@db.VarChar";
+      // CHAR and BIT without a length hold a single character / bit
+      case "CHAR":
+        return `@db.Char(${length ?? 1})`;
+      case "BIT":
+        return `@db.Bit(${length ?? 1})`;
+      case "VARBIT":
+        return length !== undefined ? `@db.VarBit(${length})` : "@db.VarBit";
+      case "UUID":
+        return "@db.Uuid";
+      case "CITEXT":
+        return "@db.Citext";
+      case "XML":
+        return "@db.Xml";
+      case "INET":
+        return "@db.Inet";
+      case "JSONB":
+        return "@db.JsonB";
+      case "JSON":
+        return "@db.Json";
+      case "DATE":
+        return "@db.Date";
+      // PostgreSQL's default precision is 6 (microseconds)
+      case "TIMESTAMP":
+        return precision === 3 ? undefined : `@db.Timestamp(${precision ?? 6})`;
+      case "TIMESTAMPTZ":
+        return `@db.Timestamptz(${precision ?? 6})`;
+      case "TIME":
+        return `@db.Time(${precision ?? 6})`;
+      case "TIMETZ":
+        return `@db.Timetz(${precision ?? 6})`;
+      default:
+        return undefined;
+    }
+  }
+
+  private static describeLossyMapping(sqlType: string): string | undefined {
+    switch (sqlType.toUpperCase()) {
+      case "INTERVAL":
+        return `${sqlType} has no Prisma scalar, so the field is Unsupported("interval") and cannot be read or written through Prisma Client`;
+      default:
+        return undefined;
     }
   }
 
   private static formatModel(model: PrismaModel): string {
-    let result = `model ${model.name} {\n`;
+    let result = this.formatDocumentation(model.documentation, "");
+    result += `${model.isView ? "view" : "model"} ${model.name} {\n`;
 
     // Find the longest field name for alignment
     const maxFieldLength = Math.max(
@@ -485,6 +1620,7 @@ datasource db {
       ).padEnd(maxTypeLength);
       const attributes = field.attributes.join(" ");
 
+      result += this.formatDocumentation(field.documentation, "  ");
       result += `  ${fieldName} ${fieldType}`;
       if (attributes) {
         result += ` ${attributes}`;
@@ -513,7 +1649,9 @@ datasource db {
     }
 
     if (model.attributes.length > 0) {
-      result += "\n";
+      if (model.fields.length > 0) {
+        result += "\n";
+      }
       for (const attribute of model.attributes) {
         result += `  ${attribute}\n`;
       }
@@ -523,6 +1661,19 @@ datasource db {
     return result;
   }
 
+  private static commentLines(comment: string | undefined): string[] {
+    return comment ? comment.split(/\r?\n/).map((line) => line.trimEnd()) : [];
+  }
+
+  private static formatDocumentation(
+    documentation: string[] | undefined,
+    indent: string
+  ): string {
+    return (documentation ?? [])
+      .map((line) => `${indent}/// ${line}\n`)
+      .join("");
+  }
+
   private static isRelationField(field: PrismaField): boolean {
     // A field is a relation if it has @relation attribute or is an array of a custom type
     return field.attributes.some((attr) => attr.includes("@relation"));
@@ -540,15 +1691,27 @@ datasource db {
     return pascal.charAt(0).toLowerCase() + pascal.slice(1);
   }
 
-  private static convertEnumsToPrismaEnums(enums: SQLEnum[]): PrismaEnum[] {
+  private static convertEnumsToPrismaEnums(
+    enums: SQLEnum[],
+    isMultiSchema: boolean
+  ): PrismaEnum[] {
     return enums.map((enumDef) => ({
       name: this.toPascalCase(enumDef.name),
       values: enumDef.values,
+      attributes: isMultiSchema ? [`@@schema("${enumDef.schema}")`] : [],
+      documentation: this.commentLines(enumDef.comment),
     }));
   }
 
   private static formatEnum(enumDef: PrismaEnum): string {
     const values = enumDef.values.map((value) => `  ${value}`).join("\n");
-    return `enum ${enumDef.name} {\n${values}\n}`;
+    const attributes =
+      enumDef.attributes.length > 0
+        ? "\n\n" +
+          enumDef.attributes.map((attribute) => `  ${attribute}`).join("\n")
+        : "";
+    return `${this.formatDocumentation(enumDef.documentation, "")}enum ${
+      enumDef.name
+    } {\n${values}${attributes}\n}`;
   }
 }
@@ -0,0 +1,166 @@
+import { SQLNode, SQLGroup, SQLToken, SQLSourceRange, SQLQualifiedName } from "@/types";
+import { SQLSourceMap } from "@/services/sql-source-map";
+
+// Sequential reader over the nodes of a statement (or of a parenthesized group)
+export class SQLCursor {
+  private position = 0;
+
+  constructor(private readonly nodes: SQLNode[], private readonly sourceMap: SQLSourceMap) {}
+
+  static isGroup(node: SQLNode | undefined): node is SQLGroup {
+    return node?.type === 'group';
+  }
+
+  static isWord(node: SQLNode | undefined, word?: string): node is SQLToken {
+    if (node?.type !== 'word') return false;
+    return word === undefined || node.value.toUpperCase() === word;
+  }
+
+  static isPunctuation(node: SQLNode | undefined, value: string): boolean {
+    return node?.type === 'punctuation' && node.value === value;
+  }
+
+  static isIdentifier(node: SQLNode | undefined): node is SQLToken {
+    return node?.type === 'word' || node?.type === 'quotedIdentifier';
+  }
+
+  // Split a node list on top-level commas, e.g. the column list of CREATE TABLE; parentheses are
+  // already groups, but brackets are plain tokens, so commas inside ARRAY['a', 'b'] are skipped by depth
+  static splitByCommas(nodes: SQLNode[]): SQLNode[][] {
+    const parts: SQLNode[][] = [[]];
+    let bracketDepth = 0;
+    for (const node of nodes) {
+      if (this.isPunctuation(node, '[')) {
+        bracketDepth++;
+      } else if (this.isPunctuation(node, ']')) {
+        bracketDepth = Math.max(bracketDepth - 1, 0);
+      }
+      if (bracketDepth === 0 && this.isPunctuation(node, ',')) {
+        parts.push([]);
+      } else {
+        parts[parts.length - 1].push(node);
+      }
+    }
+    return parts.filter(part => part.length > 0);
+  }
+
+  // Identifier names inside a group such as "(a, "B", c)"
+  static identifierList(group: SQLGroup): string[] {
+    return this.splitByCommas(group.children)
+      .map(part => part[0])
+      .filter((node): node is SQLToken => this.isIdentifier(node))
+      .map(node => node.value);
+  }
+
+  peek(offset = 0): SQLNode | undefined {
+    return this.nodes[this.position + offset];
+  }
+
+  next(): SQLNode | undefined {
+    return this.nodes[this.position++];
+  }
+
+  isDone(): boolean {
+    return this.position >= this.nodes.length;
+  }
+
+  // True when the upcoming nodes are exactly these (uppercase) keywords
+  isKeyword(...words: string[]): boolean {
+    return words.every((word, index) => SQLCursor.isWord(this.peek(index), word));
+  }
+
+  acceptKeyword(...words: string[]): boolean {
+    if (!this.isKeyword(...words)) return false;
+    this.position += words.length;
+    return true;
+  }
+
+  acceptIdentifier(): string | undefined {
+    const node = this.peek();
+    if (!SQLCursor.isIdentifier(node)) return undefined;
+    this.position++;
+    return node.value;
+  }
+
+  // A string literal's decoded contents
+  acceptString(): string | undefined {
+    const node = this.peek();
+    if (node?.type !== 'string') return undefined;
+    this.position++;
+    return node.value;
+  }
+
+  // [schema.]name; a leading catalog in catalog.schema.name is ignored
+  acceptQualifiedName(): SQLQualifiedName | undefined {
+    const parts = this.acceptDottedName();
+    if (!parts) return undefined;
+    const name = parts[parts.length - 1];
+    return parts.length > 1 ? { schema: parts[parts.length - 2], name } : { name };
+  }
+
+  // Every part of a.b.c, e.g. the [schema.]table.column target of COMMENT ON COLUMN
+  acceptDottedName(): string[] | undefined {
+    const first = this.acceptIdentifier();
+    if (!first) return undefined;
+    const parts = [first];
+    while (SQLCursor.isPunctuation(this.peek(), '.') && SQLCursor.isIdentifier(this.peek(1))) {
+      this.position++;
+      parts.push(this.acceptIdentifier()!);
+    }
+    return parts;
+  }
+
+  acceptGroup(): SQLGroup | undefined {
+    const node = this.peek();
+    if (!SQLCursor.isGroup(node)) return undefined;
+    this.position++;
+    return node;
+  }
+
+  acceptOperator(value: string): boolean {
+    const node = this.peek();
+    if (node?.type !== 'operator' || node.value !== value) return false;
+    this.position++;
+    return true;
+  }
+
+  acceptPunctuation(value: string): boolean {
+    if (!SQLCursor.isPunctuation(this.peek(), value)) return false;
+    this.position++;
+    return true;
+  }
+
+  // Consume nodes until one of the stop keywords (or the end) is reached
+  takeUntilKeyword(stopWords: string[]): SQLNode[] {
+    const taken: SQLNode[] = [];
+    while (!this.isDone()) {
+      const node = this.peek();
+      if (SQLCursor.isWord(node) && stopWords.includes(node.value.toUpperCase())) break;
+      taken.push(this.next()!);
+    }
+    return taken;
+  }
+
+  rest(): SQLNode[] {
+    const remaining = this.nodes.slice(this.position);
+    this.position = this.nodes.length;
+    return remaining;
+  }
+
+  // Nodes consumed since the given position, e.g. to compute the range of a clause
+  consumedSince(startPosition: number): SQLNode[] {
+    return this.nodes.slice(startPosition, this.position);
+  }
+
+  mark(): number {
+    return this.position;
+  }
+
+  text(nodes: SQLNode[]): string {
+    return this.sourceMap.text(nodes);
+  }
+
+  range(nodes: SQLNode[]): SQLSourceRange | undefined {
+    return this.sourceMap.rangeOf(nodes);
+  }
+}
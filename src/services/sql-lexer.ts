@@ -0,0 +1,271 @@
+import { SQLToken, SQLNode, SQLGroup, SQLStatement } from "@/types";
+
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?';
+
+export class SQLLexer {
+  static parseStatements(sql: string): SQLStatement[] {
+    return this.buildStatements(this.tokenize(sql));
+  }
+
+  static tokenize(sql: string): SQLToken[] {
+    const tokens: SQLToken[] = [];
+    let position = 0;
+    // Index of the first token of the current statement
+    let statementStart = 0;
+
+    while (position < sql.length) {
+      const char = sql[position];
+      const nextChar = sql[position + 1];
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+
+      if (char === '-' && nextChar === '-') {
+        const lineEnd = sql.indexOf('\n', position);
+        position = lineEnd === -1 ? sql.length : lineEnd + 1;
+        continue;
+      }
+
+      if (char === '/' && nextChar === '*') {
+        position = this.skipBlockComment(sql, position);
+        continue;
+      }
+
+      // E'...' strings allow backslash escapes; B'', X'' and N'' are plain literals with a prefix
+      if (/[eE]/.test(char) && nextChar === "'") {
+        const end = this.findStringEnd(sql, position + 1, true);
+        tokens.push({ type: 'string', value: this.decodeString(sql.slice(position + 2, end - 1), true), start: position, end });
+        position = end;
+        continue;
+      }
+
+      if (/[bBxXnN]/.test(char) && nextChar === "'") {
+        const end = this.findStringEnd(sql, position + 1, false);
+        tokens.push({ type: 'string', value: this.decodeString(sql.slice(position + 2, end - 1), false), start: position, end });
+        position = end;
+        continue;
+      }
+
+      if (char === "'") {
+        const end = this.findStringEnd(sql, position, false);
+        tokens.push({ type: 'string', value: this.decodeString(sql.slice(position + 1, end - 1), false), start: position, end });
+        position = end;
+        continue;
+      }
+
+      if (char === '"') {
+        const end = this.findQuotedIdentifierEnd(sql, position);
+        tokens.push({ type: 'quotedIdentifier', value: sql.slice(position + 1, end - 1).replace(/""/g, '"'), start: position, end });
+        position = end;
+        continue;
+      }
+
+      if (char === '$') {
+        const dollarToken = this.readDollarToken(sql, position);
+        tokens.push(dollarToken);
+        position = dollarToken.end;
+        continue;
+      }
+
+      if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+        const match = sql.slice(position).match(/^[A-Za-z_\u0080-\uffff][\w$\u0080-\uffff]*/)!;
+        tokens.push({ type: 'word', value: match[0], start: position, end: position + match[0].length });
+        position += match[0].length;
+        continue;
+      }
+
+      if (/\d/.test(char) || (char === '.' && /\d/.test(nextChar ?? ''))) {
+        const match = sql.slice(position).match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/)!;
+        tokens.push({ type: 'number', value: match[0], start: position, end: position + match[0].length });
+        position += match[0].length;
+        continue;
+      }
+
+      if (char === ':' && nextChar === ':') {
+        tokens.push({ type: 'operator', value: '::', start: position, end: position + 2 });
+        position += 2;
+        continue;
+      }
+
+      if (OPERATOR_CHARS.includes(char)) {
+        let end = position + 1;
+        // Stop the operator before anything that starts a comment, e.g. "a=-- comment"
+        while (
+          end < sql.length &&
+          OPERATOR_CHARS.includes(sql[end]) &&
+          !sql.startsWith('--', end) &&
+          !sql.startsWith('/*', end)
+        ) {
+          end++;
+        }
+        tokens.push({ type: 'operator', value: sql.slice(position, end), start: position, end });
+        position = end;
+        continue;
+      }
+
+      tokens.push({ type: 'punctuation', value: char, start: position, end: position + 1 });
+      position++;
+
+      if (char === ';') {
+        if (this.isCopyFromStdin(tokens.slice(statementStart))) {
+          position = this.skipCopyData(sql, position);
+        }
+        statementStart = tokens.length;
+      }
+    }
+
+    return tokens;
+  }
+
+  // COPY ... FROM stdin, as written by pg_dump; its data rows follow the statement
+  private static isCopyFromStdin(statementTokens: SQLToken[]): boolean {
+    const words = statementTokens.filter(token => token.type === 'word').map(token => token.value.toUpperCase());
+    return words[0] === 'COPY' && words.some((word, index) => word === 'FROM' && words[index + 1] === 'STDIN');
+  }
+
+  // Data rows are raw text (tabs, quotes, backslashes) terminated by a line containing only \.
+  private static skipCopyData(sql: string, position: number): number {
+    const terminator = /^\\\.[ \t]*\r?$/m.exec(sql.slice(position));
+    return terminator ? position + terminator.index + terminator[0].length : sql.length;
+  }
+
+  static buildStatements(tokens: SQLToken[]): SQLStatement[] {
+    const statements: SQLStatement[] = [];
+    // Stack of open groups; the bottom entry collects the current statement's top-level nodes
+    const stack: SQLNode[][] = [[]];
+    const openTokens: SQLToken[] = [];
+
+    const closeGroup = (end: number) => {
+      const children = stack.pop()!;
+      const open = openTokens.pop()!;
+      const group: SQLGroup = { type: 'group', children, start: open.start, end };
+      stack[stack.length - 1].push(group);
+    };
+
+    const flushStatement = () => {
+      // An unbalanced "(" should not swallow the rest of the file
+      while (stack.length > 1) {
+        const lastChildren = stack[stack.length - 1];
+        const lastNode = lastChildren[lastChildren.length - 1];
+        closeGroup(lastNode ? lastNode.end : openTokens[openTokens.length - 1].end);
+      }
+      const nodes = stack[0];
+      if (nodes.length > 0) {
+        statements.push({ nodes, start: nodes[0].start, end: nodes[nodes.length - 1].end });
+      }
+      stack[0] = [];
+    };
+
+    for (const token of tokens) {
+      if (token.type === 'punctuation' && token.value === '(') {
+        openTokens.push(token);
+        stack.push([]);
+      } else if (token.type === 'punctuation' && token.value === ')') {
+        if (stack.length > 1) {
+          closeGroup(token.end);
+        }
+      } else if (token.type === 'punctuation' && token.value === ';') {
+        flushStatement();
+      } else {
+        stack[stack.length - 1].push(token);
+      }
+    }
+    flushStatement();
+
+    return statements;
+  }
+
+  private static skipBlockComment(sql: string, start: number): number {
+    // PostgreSQL block comments nest
+    let depth = 0;
+    let position = start;
+    while (position < sql.length) {
+      if (sql.startsWith('/*', position)) {
+        depth++;
+        position += 2;
+      } else if (sql.startsWith('*/', position)) {
+        depth--;
+        position += 2;
+        if (depth === 0) return position;
+      } else {
+        position++;
+      }
+    }
+    return sql.length;
+  }
+
+  private static findStringEnd(sql: string, quoteIndex: number, allowBackslashEscapes: boolean): number {
+    let position = quoteIndex + 1;
+    while (position < sql.length) {
+      const char = sql[position];
+      if (allowBackslashEscapes && char === '\\') {
+        position += 2;
+        continue;
+      }
+      if (char === "'") {
+        if (sql[position + 1] === "'") {
+          position += 2;
+          continue;
+        }
+        return position + 1;
+      }
+      position++;
+    }
+    return sql.length;
+  }
+
+  private static decodeString(body: string, allowBackslashEscapes: boolean): string {
+    const unquoted = body.replace(/''/g, "'");
+    if (!allowBackslashEscapes) return unquoted;
+    return unquoted.replace(/\\(.)/g, (_match, escaped: string) => {
+      switch (escaped) {
+        case 'n':
+          return '\n';
+        case 't':
+          return '\t';
+        case 'r':
+          return '\r';
+        default:
+          return escaped;
+      }
+    });
+  }
+
+  private static findQuotedIdentifierEnd(sql: string, quoteIndex: number): number {
+    let position = quoteIndex + 1;
+    while (position < sql.length) {
+      if (sql[position] === '"') {
+        if (sql[position + 1] === '"') {
+          position += 2;
+          continue;
+        }
+        return position + 1;
+      }
+      position++;
+    }
+    return sql.length;
+  }
+
+  private static readDollarToken(sql: string, start: number): SQLToken {
+    // Positional parameter, e.g. $1
+    const parameterMatch = sql.slice(start).match(/^\$\d+/);
+    if (parameterMatch) {
+      return { type: 'parameter', value: parameterMatch[0], start, end: start + parameterMatch[0].length };
+    }
+
+    // Dollar-quoted string: $$...$$ or $tag$...$tag$
+    const tagMatch = sql.slice(start).match(/^\$(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)?\$/);
+    if (tagMatch) {
+      const tag = tagMatch[0];
+      const bodyStart = start + tag.length;
+      const closeIndex = sql.indexOf(tag, bodyStart);
+      const end = closeIndex === -1 ? sql.length : closeIndex + tag.length;
+      const bodyEnd = closeIndex === -1 ? sql.length : closeIndex;
+      return { type: 'string', value: sql.slice(bodyStart, bodyEnd), start, end };
+    }
+
+    return { type: 'punctuation', value: '$', start, end: start + 1 };
+  }
+}
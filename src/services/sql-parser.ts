@@ -1,347 +1,2281 @@
-import { SQLTable, SQLColumn, SQLConstraint, SQLEnum, SQLParseResult } from "@/types";
+import { SQLTable, SQLColumn, SQLConstraint, SQLEnum, SQLParseResult, SQLStatement, SQLNode, SQLToken, Diagnostic, SQLQualifiedName, SQLReferentialAction, SQLIndex, SQLIndexColumn, SQLGroup, SQLView, SQLDomain, SQLCompositeType, SQLSequence, SQLSequenceOptions, SQLExtension, SQLSourceRange } from "@/types";
+import { SQLLexer } from "@/services/sql-lexer";
+import { SQLCursor } from "@/services/sql-cursor";
+import { SQLSourceMap } from "@/services/sql-source-map";
+
+// Keywords that start a new column constraint clause, used to find where a DEFAULT expression ends;
+// NOT NULL and NULL are matched separately, since they can also be part of the expression
+const COLUMN_CLAUSE_KEYWORDS = ['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'DEFAULT', 'GENERATED', 'COLLATE'];
+
+const TABLE_CONSTRAINT_KEYWORDS = ['CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'EXCLUDE'];
+
+// Built-in type names by alias, including the internal names behind array types such as _int4
+const TYPE_ALIASES: Record<string, string> = {
+  INT: 'INTEGER',
+  INT2: 'SMALLINT',
+  INT4: 'INTEGER',
+  INT8: 'BIGINT',
+  SERIAL2: 'SMALLSERIAL',
+  SERIAL4: 'SERIAL',
+  SERIAL8: 'BIGSERIAL',
+  FLOAT4: 'REAL',
+  FLOAT8: 'DOUBLE PRECISION',
+  DECIMAL: 'NUMERIC',
+  BOOL: 'BOOLEAN',
+  CHARACTER: 'CHAR',
+  BPCHAR: 'CHAR',
+  NCHAR: 'CHAR'
+};
+
+// Built-in types whose single modifier is a fractional-seconds precision rather than a length
+const PRECISION_TYPES = ['TIMESTAMP', 'TIMESTAMPTZ', 'TIME', 'TIMETZ', 'INTERVAL'];
+
+// Fields that can restrict an INTERVAL, as in INTERVAL DAY TO SECOND
+const INTERVAL_FIELDS = ['YEAR', 'MONTH', 'DAY', 'HOUR', 'MINUTE', 'SECOND', 'TO'];
+
+// Clauses that end the FROM list of a view query
+const VIEW_FROM_END_KEYWORDS = ['WHERE', 'GROUP', 'HAVING', 'WINDOW', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'UNION', 'INTERSECT', 'EXCEPT', 'FOR'];
+
+// Words that can follow a FROM item and therefore are not its alias
+const VIEW_JOIN_KEYWORDS = ['ON', 'USING', 'JOIN', 'LEFT', 'RIGHT', 'FULL', 'INNER', 'CROSS', 'NATURAL', 'OUTER'];
+
+// Integer types that SERIAL and IDENTITY columns are declared with, and the SERIAL type they behave like
+const SERIAL_TYPES: Record<string, string> = {
+  SMALLINT: 'SMALLSERIAL',
+  INTEGER: 'SERIAL',
+  BIGINT: 'BIGSERIAL'
+};
+
+// CREATE TABLE ... (LIKE source INCLUDING ...) options that affect the schema; INCLUDING ALL turns on all of them
+const LIKE_OPTIONS = ['COMMENTS', 'CONSTRAINTS', 'DEFAULTS', 'GENERATED', 'IDENTITY', 'INDEXES'];
+
+// nextval('seq'), nextval('public.seq'::regclass)
+const NEXTVAL_PATTERN = /^(?:pg_catalog\.)?nextval\(\s*'((?:[^']|'')+)'(?:\s*::\s*regclass)?\s*\)$/i;
+
+// PostgreSQL's default search_path ("$user" never matches in a schema dump)
+const DEFAULT_SEARCH_PATH = ['public'];
+
+// State shared by the parse functions of a single parseSQL call
+interface ParseContext {
+  sourceMap: SQLSourceMap;
+  diagnostics: Diagnostic[];
+  // search_path in effect for the statement currently being parsed
+  searchPath: string[];
+  // Unqualified FK targets that were not defined yet when their statement ran, resolved against its search_path
+  // once all tables are known
+  pendingReferences: { constraint: SQLConstraint; searchPath: string[] }[];
+  // Partitions folded into their parent table; statements that target them are ignored
+  partitions: { name: string; schema: string; parent: string }[];
+}
+
+// User-defined types a column can be declared with
+interface TypeCatalog {
+  enums: SQLEnum[];
+  domains: SQLDomain[];
+  compositeTypes: SQLCompositeType[];
+}
+
+interface ColumnType {
+  typeName: SQLQualifiedName;
+  length?: number;
+  precision?: number;
+  scale?: number;
+  arrayDimensions: number;
+}
+
+// A table or view in the FROM clause of a view query
+interface ViewSource {
+  // Alias, or the relation name when there is none
+  name: string;
+  columns: SQLColumn[];
+  isNullable: boolean;
+  isTable: boolean;
+}
 
 export class SQLParser {
   static parseSQL(sql: string): SQLParseResult {
     const tables: SQLTable[] = [];
     const enums: SQLEnum[] = [];
-    
-    // Clean up the SQL - remove comments and normalize whitespace
-    const cleanedSQL = sql
-      .replace(/--.*$/gm, '') // Remove line comments
-      .replace(/\/\*[\s\S]*?\*\//g, '') // Remove block comments
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
-
-    // Split by semicolons to get individual statements
-    const statements = cleanedSQL.split(';').filter(stmt => stmt.trim());
-
-    // First pass: parse all enums
+    const views: SQLView[] = [];
+    const domains: SQLDomain[] = [];
+    const compositeTypes: SQLCompositeType[] = [];
+    const sequences: SQLSequence[] = [];
+    const extensions: SQLExtension[] = [];
+    const types: TypeCatalog = { enums, domains, compositeTypes };
+
+    // Tokenize once so that semicolons and comment markers inside string literals,
+    // dollar-quoted bodies and quoted identifiers never split or truncate a statement
+    const statements = SQLLexer.parseStatements(sql);
+    const context: ParseContext = {
+      sourceMap: new SQLSourceMap(sql),
+      diagnostics: [],
+      searchPath: DEFAULT_SEARCH_PATH,
+      pendingReferences: [],
+      partitions: []
+    };
+    // Statements claimed by one of the passes below; everything else is reported as skipped
+    const handled = new Set<SQLStatement>();
+
+    // Record the search_path in effect at every statement, since the passes below don't run in file order
+    const searchPaths = new Map<SQLStatement, string[]>();
+    for (const statement of statements) {
+      const searchPath = this.parseSetSearchPath(statement, context);
+      if (searchPath) {
+        handled.add(statement);
+        context.searchPath = searchPath;
+      } else if (this.isDumpBoilerplate(statement, context)) {
+        handled.add(statement);
+      }
+      searchPaths.set(statement, context.searchPath);
+    }
+
+    // First pass: replay types, sequences, extensions, tables and their indexes and comments in file order, so that
+    // every statement sees the schema as it stood at that point (a table created after DROP TYPE never picks up the
+    // dropped type, and CREATE TABLE ... LIKE copies the indexes, constraints and comments its source had by then)
     for (const statement of statements) {
-      const trimmed = statement.trim();
-      const upperTrimmed = trimmed.toUpperCase();
-      
-      if (upperTrimmed.startsWith('CREATE TYPE') && upperTrimmed.includes('AS ENUM')) {
-        const enumDef = this.parseCreateEnum(trimmed);
+      context.searchPath = searchPaths.get(statement)!;
+      if (this.startsWithKeywords(statement, 'CREATE', 'TYPE') && this.containsKeywords(statement, 'AS', 'ENUM')) {
+        handled.add(statement);
+        const enumDef = this.parseCreateEnum(statement, context);
         if (enumDef) {
           enums.push(enumDef);
         }
+      } else if (this.isCreateCompositeType(statement, context)) {
+        handled.add(statement);
+        const compositeType = this.parseCreateCompositeType(statement, context);
+        if (compositeType) {
+          compositeTypes.push(compositeType);
+        }
+      } else if (this.startsWithKeywords(statement, 'CREATE', 'DOMAIN')) {
+        handled.add(statement);
+        const domain = this.parseCreateDomain(statement, context, types);
+        if (domain) {
+          domains.push(domain);
+        }
+      } else if (this.startsWithKeywords(statement, 'ALTER', 'TYPE') && this.parseAlterType(statement, context, types, tables)) {
+        handled.add(statement);
+      } else if (this.startsWithKeywords(statement, 'DROP', 'TYPE')) {
+        handled.add(statement);
+        this.parseDropType(statement, context, types, tables);
+      } else if (this.startsWithKeywords(statement, 'CREATE', 'SEQUENCE') || this.startsWithKeywords(statement, 'ALTER', 'SEQUENCE')) {
+        handled.add(statement);
+        this.parseSequence(statement, context, sequences);
+      } else if (['CREATE', 'ALTER', 'DROP'].some(word => this.startsWithKeywords(statement, word, 'EXTENSION')) && this.parseExtension(statement, context, extensions)) {
+        handled.add(statement);
+      } else if (this.isCreateTable(statement, context)) {
+        handled.add(statement);
+        const table = this.parseCreateTable(statement, context, types, tables);
+        if (table) {
+          tables.push(table);
+        }
+      } else if (!handled.has(statement) && this.startsWithKeywords(statement, 'ALTER', 'TABLE') && this.parseAlterTable(statement, context, tables, types)) {
+        handled.add(statement);
+      } else if (this.isCreateIndex(statement) && this.parseCreateIndex(statement, context, tables)) {
+        handled.add(statement);
+      } else if (this.startsWithKeywords(statement, 'COMMENT', 'ON') && this.parseComment(statement, context, tables, enums)) {
+        handled.add(statement);
       }
     }
+    this.applySequenceDefaults(tables, sequences);
 
-    // Second pass: parse tables with enum context
+    // Second pass: views, once every table (and its keys) is known
     for (const statement of statements) {
-      const trimmed = statement.trim();
-      const upperTrimmed = trimmed.toUpperCase();
-      
-      if (upperTrimmed.startsWith('CREATE TABLE')) {
-        const table = this.parseCreateTable(trimmed, enums);
-        if (table) {
-          tables.push(table);
+      context.searchPath = searchPaths.get(statement)!;
+      if (this.isCreateView(statement, context)) {
+        handled.add(statement);
+        const view = this.parseCreateView(statement, context, tables, views);
+        if (view) {
+          views.push(view);
         }
       }
     }
 
-    // Third pass: handle ALTER TABLE statements for foreign keys
+    // Last pass: indexes and comments that target views (or tables the first pass didn't know yet)
+    for (const statement of statements) {
+      context.searchPath = searchPaths.get(statement)!;
+      if (handled.has(statement)) continue;
+      if (this.isCreateIndex(statement)) {
+        handled.add(statement);
+        this.parseCreateIndex(statement, context, tables, views);
+      } else if (this.startsWithKeywords(statement, 'COMMENT', 'ON') && this.parseComment(statement, context, tables, enums, views)) {
+        handled.add(statement);
+      }
+    }
+
+    for (const { constraint, searchPath } of context.pendingReferences) {
+      constraint.referencedSchema = this.resolveSchema(constraint.referencedTable!, tables, searchPath);
+    }
+    this.resolveReferencedPrimaryKeys(tables, context);
+
     for (const statement of statements) {
-      const trimmed = statement.trim();
-      const upperTrimmed = trimmed.toUpperCase();
-      
-      if (upperTrimmed.startsWith('ALTER TABLE') && (upperTrimmed.includes('ADD FOREIGN KEY') || upperTrimmed.includes('ADD CONSTRAINT'))) {
-        this.parseAlterTableForeignKey(trimmed, tables);
+      if (!handled.has(statement)) {
+        context.diagnostics.push({
+          severity: 'info',
+          code: 'SKIPPED_STATEMENT',
+          message: `${this.describeStatement(statement)} statement is not supported and was skipped`,
+          range: context.sourceMap.rangeOf(statement.nodes)
+        });
       }
     }
 
-    return { tables, enums };
+    return { tables, enums, views, domains, compositeTypes, sequences, extensions, diagnostics: context.diagnostics };
+  }
+
+  // Leading keywords of a statement for messages, e.g. "CREATE FUNCTION"
+  private static describeStatement(statement: SQLStatement): string {
+    const words = statement.nodes
+      .filter((node, index) => index < 4 && SQLCursor.isWord(node))
+      .map(node => (node as SQLToken).value.toUpperCase())
+      .filter(word => word !== 'OR' && word !== 'REPLACE');
+    return words.slice(0, 2).join(' ') || 'Unrecognized';
+  }
+
+  private static containsKeywords(statement: SQLStatement, ...words: string[]): boolean {
+    return statement.nodes.some((_node, index) =>
+      words.every((word, offset) => SQLCursor.isWord(statement.nodes[index + offset], word))
+    );
+  }
+
+  // SET [SESSION | LOCAL] search_path { TO | = } schema [, ...], or pg_dump's SELECT pg_catalog.set_config('search_path', '...', false)
+  private static parseSetSearchPath(statement: SQLStatement, context: ParseContext): string[] | null {
+    const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+    if (cursor.acceptKeyword('SELECT')) {
+      const functionName = cursor.acceptDottedName();
+      const args = cursor.acceptGroup();
+      if (functionName?.[functionName.length - 1].toLowerCase() !== 'set_config' || !args) return null;
+      const [setting, value] = SQLCursor.splitByCommas(args.children).map(part => part[0]);
+      if (setting?.type !== 'string' || setting.value.toLowerCase() !== 'search_path' || value?.type !== 'string') return null;
+      return value.value
+        .split(',')
+        .map(schema => schema.trim().replace(/^"(.*)"$/, '$1'))
+        .filter(schema => schema.length > 0 && schema !== '$user');
+    }
+    if (!cursor.acceptKeyword('SET')) return null;
+    cursor.acceptKeyword('SESSION') || cursor.acceptKeyword('LOCAL');
+    if (!cursor.acceptKeyword('SEARCH_PATH')) return null;
+    if (!cursor.acceptKeyword('TO') && !cursor.acceptOperator('=')) return null;
+    if (cursor.acceptKeyword('DEFAULT')) return DEFAULT_SEARCH_PATH;
+
+    return SQLCursor.splitByCommas(cursor.rest())
+      .map(part => part[0])
+      .filter((node): node is SQLToken => node.type === 'string' || SQLCursor.isIdentifier(node))
+      .map(node => node.value.trim())
+      .filter(schema => schema.length > 0 && schema !== '$user');
+  }
+
+  // Session settings, privileges, ownership and table data in pg_dump output carry no schema information
+  private static isDumpBoilerplate(statement: SQLStatement, context: ParseContext): boolean {
+    if (['SET', 'RESET', 'GRANT', 'REVOKE', 'COPY'].some(word => this.startsWithKeywords(statement, word))) return true;
+    if (this.startsWithKeywords(statement, 'ALTER', 'DEFAULT', 'PRIVILEGES')) return true;
+    // COMMENT ON EXTENSION repeats the description from the extension's control file
+    if (this.startsWithKeywords(statement, 'COMMENT', 'ON', 'EXTENSION')) return true;
+    // ALTER INDEX parent_idx ATTACH PARTITION child_idx only ties partition indexes to the parent's
+    if (this.startsWithKeywords(statement, 'ALTER', 'INDEX') && this.containsKeywords(statement, 'ATTACH', 'PARTITION')) return true;
+    // SELECT pg_catalog.setval('seq', 42, true)
+    if (this.startsWithKeywords(statement, 'SELECT') && this.containsKeywords(statement, 'SETVAL')) return true;
+    // pg_dump also uses ALTER TABLE ... OWNER TO for sequences and views, which are no ALTER TABLE targets
+    if (this.startsWithKeywords(statement, 'ALTER', 'TABLE')) {
+      const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+      cursor.acceptKeyword('ALTER', 'TABLE');
+      cursor.acceptKeyword('IF', 'EXISTS');
+      cursor.acceptKeyword('ONLY');
+      return cursor.acceptQualifiedName() !== undefined && cursor.acceptKeyword('OWNER', 'TO') && cursor.acceptIdentifier() !== undefined && cursor.isDone();
+    }
+    // ALTER TYPE / FUNCTION / SCHEMA / ... OWNER TO role
+    return this.startsWithKeywords(statement, 'ALTER') && this.containsKeywords(statement, 'OWNER', 'TO');
+  }
+
+  // The schema of the first search_path entry that defines the name, or where an unqualified CREATE would put it
+  private static resolveSchema(name: string, candidates: { name: string; schema: string }[], searchPath: string[]): string {
+    const match = searchPath.find(schema => candidates.some(candidate => candidate.name === name && candidate.schema === schema));
+    return match ?? searchPath[0] ?? DEFAULT_SEARCH_PATH[0];
+  }
+
+  private static findBySchema<T extends { name: string; schema: string }>(candidates: T[], qualifiedName: SQLQualifiedName, searchPath: string[]): T | undefined {
+    const schema = qualifiedName.schema ?? this.resolveSchema(qualifiedName.name, candidates, searchPath);
+    return candidates.find(candidate => candidate.name === qualifiedName.name && candidate.schema === schema);
   }
 
-  private static parseCreateTable(statement: string, enums: SQLEnum[] = []): SQLTable | null {
+  // Like PostgreSQL, unqualified references bind to a table on the search_path when the statement runs;
+  // tables that are not defined yet (forward and self references) are resolved once every table is known
+  private static setReferencedTable(constraint: SQLConstraint, reference: SQLQualifiedName, context: ParseContext, tables: SQLTable[]): void {
+    constraint.referencedTable = reference.name;
+    const referenced = this.findBySchema(tables, reference, context.searchPath);
+    const schema = reference.schema ?? referenced?.schema;
+    if (schema) {
+      constraint.referencedSchema = schema;
+    } else {
+      context.pendingReferences.push({ constraint, searchPath: context.searchPath });
+    }
+    if (referenced && !constraint.referencedColumns) {
+      constraint.referencedColumns = this.primaryKeyColumns(referenced);
+    }
+  }
+
+  // REFERENCES without a column list to a table that was not defined yet when the statement ran; foreign keys
+  // to unknown tables are reported by the generator
+  private static resolveReferencedPrimaryKeys(tables: SQLTable[], context: ParseContext): void {
+    for (const table of tables) {
+      for (const constraint of table.constraints) {
+        if (constraint.type !== 'FOREIGN KEY' || constraint.referencedColumns) continue;
+        const referenced = tables.find(candidate => candidate.name === constraint.referencedTable && candidate.schema === constraint.referencedSchema);
+        constraint.referencedColumns = referenced && this.primaryKeyColumns(referenced);
+        if (referenced && !constraint.referencedColumns) {
+          context.diagnostics.push({
+            severity: 'warning',
+            code: 'UNRESOLVED_REFERENCE',
+            message: `Foreign key ${table.name}(${constraint.columns.join(', ')}) names no columns and ${referenced.name} has no primary key; the relation field was not generated`,
+            range: constraint.range,
+            table: table.name
+          });
+        }
+      }
+    }
+  }
+
+  // REFERENCES without a column list targets the referenced table's primary key
+  private static primaryKeyColumns(table: SQLTable): string[] | undefined {
+    const columns =
+      table.constraints.find(constraint => constraint.type === 'PRIMARY KEY')?.columns ??
+      table.columns.filter(column => column.isPrimaryKey).map(column => column.name);
+    return columns.length > 0 ? columns : undefined;
+  }
+
+  private static errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private static startsWithKeywords(statement: SQLStatement, ...words: string[]): boolean {
+    return words.every((word, index) => SQLCursor.isWord(statement.nodes[index], word));
+  }
+
+  private static isCreateTable(statement: SQLStatement, context: ParseContext): boolean {
+    return this.acceptCreateTablePrefix(new SQLCursor(statement.nodes, context.sourceMap));
+  }
+
+  // CREATE [GLOBAL | LOCAL] [TEMP | TEMPORARY | UNLOGGED] TABLE [IF NOT EXISTS]
+  private static acceptCreateTablePrefix(cursor: SQLCursor): boolean {
+    if (!cursor.acceptKeyword('CREATE')) return false;
+    cursor.acceptKeyword('GLOBAL') || cursor.acceptKeyword('LOCAL');
+    cursor.acceptKeyword('TEMPORARY') || cursor.acceptKeyword('TEMP') || cursor.acceptKeyword('UNLOGGED');
+    if (!cursor.acceptKeyword('TABLE')) return false;
+    cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+    return true;
+  }
+
+  // Tables are parsed in file order, so INHERITS and LIKE can copy from the tables before this one
+  private static parseCreateTable(statement: SQLStatement, context: ParseContext, types: TypeCatalog, tables: SQLTable[]): SQLTable | null {
+    const range = context.sourceMap.rangeOf(statement.nodes);
     try {
-      // Extract table name (handle both quoted and unquoted identifiers)
-      const tableNameMatch = statement.match(/CREATE\s+TABLE\s+(?:"([^"]+)"|(\w+))\s*\(/i);
-      if (!tableNameMatch) return null;
-
-      const tableName = tableNameMatch[1] || tableNameMatch[2]; // quoted name or unquoted name
-      
-      // Extract the content between parentheses
-      const contentMatch = statement.match(/\(([\s\S]*)\)/);
-      if (!contentMatch) return null;
-
-      const content = contentMatch[1];
-      
-      // Split by commas, but be careful about commas inside parentheses
-      const parts = this.splitByCommas(content);
-      
-      const columns: SQLColumn[] = [];
+      const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+      if (!this.acceptCreateTablePrefix(cursor)) return null;
+
+      const qualifiedName = cursor.acceptQualifiedName();
+      if (!qualifiedName) {
+        context.diagnostics.push({ severity: 'error', code: 'PARSE_ERROR', message: 'CREATE TABLE statement has no table name and was skipped', range });
+        return null;
+      }
+
+      const tableName = qualifiedName.name;
+      const schema = qualifiedName.schema ?? context.searchPath[0] ?? DEFAULT_SEARCH_PATH[0];
+
+      // CREATE TABLE name PARTITION OF parent ...: the rows belong to the parent's model
+      if (cursor.acceptKeyword('PARTITION', 'OF')) {
+        const parent = cursor.acceptQualifiedName();
+        this.addPartition({ name: tableName, schema }, parent?.name ?? '', context, range);
+        return null;
+      }
+
+      const body = cursor.acceptGroup();
+      if (!body) {
+        context.diagnostics.push({
+          severity: 'error',
+          code: 'PARSE_ERROR',
+          message: `CREATE TABLE ${tableName} has no column list and was skipped`,
+          range,
+          table: tableName
+        });
+        return null;
+      }
+
+      let columns: SQLColumn[] = [];
       const constraints: SQLConstraint[] = [];
+      const indexes: SQLIndex[] = [];
 
-      for (const part of parts) {
-        const trimmed = part.trim();
-        if (this.isConstraintDefinition(trimmed)) {
-          const constraint = this.parseConstraint(trimmed);
+      for (const part of SQLCursor.splitByCommas(body.children)) {
+        if (SQLCursor.isWord(part[0], 'LIKE')) {
+          this.copyLikeSource(part, context, tables, {name: tableName, columns, constraints, indexes});
+        } else if (this.isConstraintDefinition(part)) {
+          const constraint = this.parseConstraint(part, context, tableName, tables);
           if (constraint) {
             constraints.push(constraint);
           }
         } else {
-          const column = this.parseColumn(trimmed, {name: tableName, columns, constraints}, enums);
+          const column = this.parseColumn(part, context, {name: tableName, columns, constraints}, types, tables);
           if (column) {
             columns.push(column);
           }
         }
       }
 
-      return {
+      // INHERITS (parent, ...) and PARTITION BY { RANGE | LIST | HASH } (key), among other table options
+      let partitionBy: string | undefined;
+      let inherits: string[] | undefined;
+      while (!cursor.isDone()) {
+        if (cursor.isKeyword('INHERITS')) {
+          const inheritsStart = cursor.mark();
+          cursor.acceptKeyword('INHERITS');
+          const parents = cursor.acceptGroup();
+          if (parents) {
+            const inherited = this.inheritColumns(parents, cursor.range(cursor.consumedSince(inheritsStart)), context, tables, tableName, constraints);
+            inherits = inherited.parents;
+            columns = this.mergeInheritedColumns(inherited.columns, columns);
+          }
+        } else if (cursor.acceptKeyword('PARTITION', 'BY')) {
+          const start = cursor.mark();
+          cursor.acceptIdentifier();
+          cursor.acceptGroup();
+          partitionBy = cursor.text(cursor.consumedSince(start));
+        } else {
+          cursor.next();
+        }
+      }
+
+      const table: SQLTable = {
         name: tableName,
+        schema,
         columns,
-        constraints
+        constraints,
+        indexes,
+        partitionBy,
+        inherits,
+        range
       };
+      for (const constraint of constraints) {
+        if (constraint.type === 'PRIMARY KEY') {
+          this.applyPrimaryKey(table, constraint, context);
+        } else if (constraint.type === 'CHECK') {
+          this.resolveCheckColumns(table, constraint);
+        }
+      }
+      return table;
     } catch (error) {
-      console.error('Error parsing CREATE TABLE statement:', error);
+      context.diagnostics.push({
+        severity: 'error',
+        code: 'PARSE_ERROR',
+        message: `Failed to parse CREATE TABLE statement: ${this.errorMessage(error)}`,
+        range
+      });
       return null;
     }
   }
 
-  private static splitByCommas(content: string): string[] {
-    const parts: string[] = [];
-    let current = '';
-    let parenthesesDepth = 0;
+  // Parent columns with their NOT NULL, defaults and CHECK constraints; keys, FKs and indexes are not inherited
+  private static inheritColumns(parents: SQLGroup, range: SQLSourceRange | undefined, context: ParseContext, tables: SQLTable[], tableName: string, constraints: SQLConstraint[]): { parents: string[]; columns: SQLColumn[] } {
+    const parentNames: string[] = [];
+    const columns: SQLColumn[] = [];
+    for (const part of SQLCursor.splitByCommas(parents.children)) {
+      const parentName = new SQLCursor(part, context.sourceMap).acceptQualifiedName();
+      if (!parentName) continue;
 
-    for (let i = 0; i < content.length; i++) {
-      const char = content[i];
-      
-      if (char === '(') {
-        parenthesesDepth++;
-      } else if (char === ')') {
-        parenthesesDepth--;
-      } else if (char === ',' && parenthesesDepth === 0) {
-        parts.push(current.trim());
-        current = '';
+      const parent = this.findBySchema(tables, parentName, context.searchPath);
+      if (!parent) {
+        context.diagnostics.push({
+          severity: 'warning',
+          code: 'UNRESOLVED_REFERENCE',
+          message: `${tableName} inherits from unknown table ${parentName.name}; its columns are missing`,
+          range,
+          table: tableName
+        });
         continue;
       }
-      
-      current += char;
+
+      parentNames.push(parent.name);
+      for (const column of parent.columns) {
+        const existing = columns.find(c => c.name === column.name);
+        if (existing) {
+          // A column inherited from several parents is merged into one
+          existing.nullable = existing.nullable && column.nullable;
+          continue;
+        }
+        columns.push({
+          ...column,
+          isPrimaryKey: false,
+          isUnique: false,
+          comment: undefined,
+          origin: { table: parent.name, via: 'INHERITS' },
+          range
+        });
+      }
+      for (const constraint of parent.constraints) {
+        if (constraint.type === 'CHECK') {
+          constraints.push({ ...constraint, columns: [...constraint.columns], range });
+        }
+      }
     }
-    
-    if (current.trim()) {
-      parts.push(current.trim());
+    return { parents: parentNames, columns };
+  }
+
+  // Inherited columns come first; a column also declared locally is merged into the inherited one
+  private static mergeInheritedColumns(inherited: SQLColumn[], local: SQLColumn[]): SQLColumn[] {
+    const merged = inherited.map(column => {
+      const declared = local.find(c => c.name === column.name);
+      if (!declared) return column;
+      return {
+        ...column,
+        ...declared,
+        nullable: column.nullable && declared.nullable,
+        defaultValue: declared.defaultValue ?? column.defaultValue
+      };
+    });
+    return [...merged, ...local.filter(column => !inherited.some(c => c.name === column.name))];
+  }
+
+  // LIKE source [{ INCLUDING | EXCLUDING } { COMMENTS | CONSTRAINTS | DEFAULTS | GENERATED | IDENTITY | INDEXES | ... | ALL }]...
+  // Column names, types and NOT NULL are always copied; foreign keys never are
+  private static copyLikeSource(part: SQLNode[], context: ParseContext, tables: SQLTable[], target: { name: string; columns: SQLColumn[]; constraints: SQLConstraint[]; indexes: SQLIndex[] }): void {
+    const range = context.sourceMap.rangeOf(part);
+    const cursor = new SQLCursor(part, context.sourceMap);
+    cursor.acceptKeyword('LIKE');
+    const sourceName = cursor.acceptQualifiedName();
+    const source = sourceName ? this.findBySchema(tables, sourceName, context.searchPath) : undefined;
+    if (!source) {
+      context.diagnostics.push({
+        severity: 'warning',
+        code: 'UNRESOLVED_REFERENCE',
+        message: `${target.name} is LIKE unknown table ${sourceName?.name ?? cursor.text(part)}; its columns are missing`,
+        range,
+        table: target.name
+      });
+      return;
+    }
+
+    const included = new Set<string>();
+    while (!cursor.isDone()) {
+      const isIncluding = cursor.acceptKeyword('INCLUDING');
+      if (!isIncluding && !cursor.acceptKeyword('EXCLUDING')) {
+        cursor.next();
+        continue;
+      }
+      const option = cursor.acceptIdentifier()?.toUpperCase();
+      for (const name of option === 'ALL' ? LIKE_OPTIONS : [option ?? '']) {
+        if (isIncluding) {
+          included.add(name);
+        } else {
+          included.delete(name);
+        }
+      }
+    }
+
+    const keepsIndexes = included.has('INDEXES');
+    for (const column of source.columns) {
+      // SERIAL columns are an integer plus a sequence default (or identity)
+      const keepsSequence = included.has('DEFAULTS') || included.has('IDENTITY');
+      target.columns.push({
+        ...column,
+        type: keepsSequence ? column.type : this.integerTypeOf(column.type),
+        sequenceOptions: keepsSequence ? column.sequenceOptions : undefined,
+        defaultValue: included.has('DEFAULTS') ? column.defaultValue : undefined,
+        generatedExpression: included.has('GENERATED') ? column.generatedExpression : undefined,
+        isPrimaryKey: keepsIndexes && column.isPrimaryKey,
+        isUnique: keepsIndexes && column.isUnique,
+        comment: included.has('COMMENTS') ? column.comment : undefined,
+        origin: { table: source.name, via: 'LIKE' },
+        range
+      });
     }
-    
-    return parts;
+
+    // Copied keys and indexes get new generated names; CHECK constraints keep theirs
+    for (const constraint of source.constraints) {
+      if (constraint.type === 'CHECK' && included.has('CONSTRAINTS')) {
+        target.constraints.push({ ...constraint, columns: [...constraint.columns], range });
+      } else if ((constraint.type === 'PRIMARY KEY' || constraint.type === 'UNIQUE') && keepsIndexes) {
+        target.constraints.push({ ...constraint, name: undefined, columns: [...constraint.columns], range });
+      }
+    }
+    if (keepsIndexes) {
+      for (const index of source.indexes) {
+        target.indexes.push({ ...index, name: undefined, columns: index.columns.map(column => ({ ...column })), range });
+      }
+    }
+  }
+
+  // The plain integer type behind SERIAL, BIGSERIAL and SMALLSERIAL
+  private static integerTypeOf(type: string): string {
+    return Object.keys(SERIAL_TYPES).find(integerType => SERIAL_TYPES[integerType] === type) ?? type;
   }
 
-  private static isConstraintDefinition(part: string): boolean {
-    const upper = part.toUpperCase();
-    // Check if it starts with a column identifier (quoted or unquoted)
-    const startsWithColumnIdentifier = /^("([^"]+)"|\w+)\s+/.test(part);
-    
-    return (
-      upper.includes('PRIMARY KEY') ||
-      upper.includes('FOREIGN KEY') ||
-      upper.includes('UNIQUE') ||
-      upper.includes('CHECK')
-    ) && !startsWithColumnIdentifier; // Not a column definition
+  private static addPartition(partition: { name: string; schema: string }, parent: string, context: ParseContext, range: SQLSourceRange | undefined): void {
+    context.partitions.push({ ...partition, parent });
+    context.diagnostics.push({
+      severity: 'info',
+      code: 'SKIPPED_STATEMENT',
+      message: `Partition ${partition.name} of ${parent} is represented by the ${parent} model and was skipped`,
+      range,
+      table: partition.name
+    });
   }
 
-  private static parseIdentifier(identifier: string): string {
-    // Handle both quoted and unquoted identifiers
-    if (identifier.startsWith('"') && identifier.endsWith('"')) {
-      return identifier.slice(1, -1); // Remove quotes
+  private static isPartition(name: SQLQualifiedName, context: ParseContext): boolean {
+    return this.findBySchema(context.partitions, name, context.searchPath) !== undefined;
+  }
+
+  // Key columns are implicitly NOT NULL; a single-column key behaves like an inline PRIMARY KEY
+  private static applyPrimaryKey(table: SQLTable, constraint: SQLConstraint, context: ParseContext): void {
+    for (const columnName of constraint.columns) {
+      const column = table.columns.find(c => c.name === columnName);
+      if (!column) {
+        context.diagnostics.push({
+          severity: 'warning',
+          code: 'UNRESOLVED_REFERENCE',
+          message: `PRIMARY KEY on ${table.name} references unknown column ${columnName}`,
+          range: constraint.range,
+          table: table.name,
+          column: columnName
+        });
+        continue;
+      }
+      column.nullable = false;
+      if (constraint.columns.length === 1) {
+        column.isPrimaryKey = true;
+      }
     }
-    return identifier;
   }
 
-  private static parseColumn(columnDef: string, table: {name: string, columns: SQLColumn[], constraints: SQLConstraint[]}, enums: SQLEnum[] = []): SQLColumn | null {
-    try {
-      // Handle quoted column names by parsing the first identifier properly
-      const trimmed = columnDef.trim();
-      let name: string;
-      let remainingDef: string;
-      
-      if (trimmed.startsWith('"')) {
-        // Quoted identifier
-        const endQuote = trimmed.indexOf('"', 1);
-        if (endQuote === -1) return null;
-        name = trimmed.slice(1, endQuote);
-        remainingDef = trimmed.slice(endQuote + 1).trim();
+  // Every identifier in the expression is a column candidate until the table's columns are known
+  private static parseCheckExpression(expression: SQLGroup, context: ParseContext): SQLConstraint {
+    const constraint: SQLConstraint = {
+      type: 'CHECK',
+      columns: this.collectIdentifiers(expression.children),
+      expression: context.sourceMap.text(expression.children)
+    };
+
+    // col IN ('a', 'b') and pg_dump's (col)::text = ANY ((ARRAY['a'::text, 'b'::text])::text[])
+    const tokens = this.flattenNodes(expression.children);
+    const words = tokens.filter(token => token.type === 'word').map(token => token.value.toUpperCase());
+    const isList = words.includes('IN') || (words.includes('ANY') && tokens.some(token => token.type === 'operator' && token.value === '='));
+    const isCompound = words.some(word => ['AND', 'OR', 'NOT'].includes(word));
+    const values = tokens.filter(token => token.type === 'string').map(token => token.value);
+    if (isList && !isCompound && values.length > 0) {
+      constraint.allowedValues = values;
+    }
+    return constraint;
+  }
+
+  // Keep only identifiers that name a column of the table; a value list needs exactly one
+  private static resolveCheckColumns(table: SQLTable, constraint: SQLConstraint): void {
+    constraint.columns = [...new Set(constraint.columns)].filter(name => table.columns.some(column => column.name === name));
+    if (constraint.columns.length !== 1) {
+      delete constraint.allowedValues;
+    }
+  }
+
+  private static collectIdentifiers(nodes: SQLNode[]): string[] {
+    const identifiers: string[] = [];
+    this.flattenNodes(nodes).forEach((token, index, tokens) => {
+      // Skip cast targets such as ::text
+      const previous = tokens[index - 1];
+      if (SQLCursor.isIdentifier(token) && !(previous?.type === 'operator' && previous.value === '::')) {
+        identifiers.push(token.value);
+      }
+    });
+    return identifiers;
+  }
+
+  private static flattenNodes(nodes: SQLNode[]): SQLToken[] {
+    return nodes.flatMap(node => (SQLCursor.isGroup(node) ? this.flattenNodes(node.children) : [node]));
+  }
+
+  // Number of [] / [n] suffixes; array sizes are not enforced by PostgreSQL
+  private static acceptArrayBounds(cursor: SQLCursor): number {
+    let dimensions = 0;
+    while (cursor.acceptPunctuation('[')) {
+      while (!cursor.isDone() && !cursor.acceptPunctuation(']')) {
+        cursor.next();
+      }
+      dimensions++;
+    }
+    return dimensions;
+  }
+
+  private static isConstraintDefinition(part: SQLNode[]): boolean {
+    // Table constraints start with a reserved keyword; a column with such a name must be quoted
+    const first = part[0];
+    return SQLCursor.isWord(first) && TABLE_CONSTRAINT_KEYWORDS.includes(first.value.toUpperCase());
+  }
+
+  // Type name with its modifiers and array bounds: VARCHAR(255), NUMERIC(10, 2)[], INTEGER ARRAY, _int4
+  private static acceptColumnType(cursor: SQLCursor, context: ParseContext, types: TypeCatalog): ColumnType | undefined {
+    const type = this.acceptTypeName(cursor);
+    if (!type) return undefined;
+
+    // _int4, _text, ... are the internal names of one-dimensional array types
+    let arrayDimensions = 0;
+    if (type.typeName.name.startsWith('_') && !this.findBySchema(types.enums, type.typeName, context.searchPath)) {
+      const elementName = type.typeName.name.slice(1);
+      type.typeName = { ...type.typeName, name: TYPE_ALIASES[elementName.toUpperCase()] ?? elementName };
+      arrayDimensions = 1;
+    }
+
+    // TEXT[], INTEGER[][], INTEGER[3] and the SQL-standard INTEGER ARRAY[3]
+    arrayDimensions += this.acceptArrayBounds(cursor);
+    if (cursor.acceptKeyword('ARRAY')) {
+      this.acceptArrayBounds(cursor);
+      arrayDimensions = Math.max(arrayDimensions, 1);
+    }
+
+    return { ...type, arrayDimensions };
+  }
+
+  // A type name and its modifiers. Built-in types get their canonical name, so DOUBLE PRECISION, FLOAT8 and FLOAT(53)
+  // all become DOUBLE PRECISION, CHARACTER VARYING(100) becomes VARCHAR with length 100, and TIMESTAMP(3) WITH TIME ZONE
+  // becomes TIMESTAMPTZ with precision 3; other names are kept as written
+  private static acceptTypeName(cursor: SQLCursor): Omit<ColumnType, 'arrayDimensions'> | undefined {
+    const typeName = cursor.acceptQualifiedName();
+    if (!typeName) return undefined;
+
+    const isBuiltIn = !typeName.schema || typeName.schema.toLowerCase() === 'pg_catalog';
+    let name = typeName.name.toUpperCase();
+    if (isBuiltIn) {
+      if (name === 'NATIONAL') {
+        cursor.acceptKeyword('CHARACTER') || cursor.acceptKeyword('CHAR');
+        name = 'CHAR';
+      }
+      if (name === 'DOUBLE' && cursor.acceptKeyword('PRECISION')) {
+        name = 'DOUBLE PRECISION';
+      } else if (['CHARACTER', 'CHAR', 'NCHAR'].includes(name) && cursor.acceptKeyword('VARYING')) {
+        name = 'VARCHAR';
+      } else if (name === 'BIT' && cursor.acceptKeyword('VARYING')) {
+        name = 'VARBIT';
+      } else if (name === 'INTERVAL') {
+        while (INTERVAL_FIELDS.some(field => cursor.isKeyword(field))) {
+          cursor.next();
+        }
+      }
+    }
+
+    const modifiers = SQLCursor.splitByCommas(cursor.acceptGroup()?.children ?? [])
+      .map(part => part.length === 1 && part[0].type === 'number' ? parseInt(part[0].value) : undefined);
+
+    if (!isBuiltIn) {
+      return { typeName, length: modifiers.length === 1 ? modifiers[0] : undefined };
+    }
+
+    if (name === 'TIMESTAMP' || name === 'TIME') {
+      if (cursor.acceptKeyword('WITH', 'TIME', 'ZONE')) {
+        name += 'TZ';
       } else {
-        // Unquoted identifier
-        const spaceIndex = trimmed.indexOf(' ');
-        if (spaceIndex === -1) return null;
-        name = trimmed.slice(0, spaceIndex);
-        remainingDef = trimmed.slice(spaceIndex + 1).trim();
-      }
-      
-      const parts = remainingDef.split(/\s+/);
-      if (parts.length < 1) return null;
-      
-      let type = parts[0];
-      
-      // Handle types with length like VARCHAR(255)
-      let length: number | undefined;
-      const lengthMatch = type.match(/(\w+)\((\d+)\)/);
-      if (lengthMatch) {
-        type = lengthMatch[1];
-        length = parseInt(lengthMatch[2]);
-      }
-
-      // Check if the type is an enum
-      const isEnum = enums.some(enumDef => enumDef.name.toLowerCase() === type.toLowerCase());
-
-      // Parse constraints
-      const upperDef = columnDef.toUpperCase();
-      const isPrimaryKey = upperDef.includes('PRIMARY KEY');
-      const isUnique = upperDef.includes('UNIQUE') || isPrimaryKey;
-      const nullable = !upperDef.includes('NOT NULL') && !isPrimaryKey;
-      
-      // Check for IDENTITY columns (PostgreSQL auto-increment alternative)
-      const isIdentity = upperDef.includes('GENERATED BY DEFAULT AS IDENTITY') || 
-                        upperDef.includes('GENERATED ALWAYS AS IDENTITY');
-      
-      // If it's an IDENTITY column, treat it as if it were SERIAL for Prisma conversion
-      if (isIdentity && type.toUpperCase() === 'INTEGER') {
-        type = 'SERIAL';
-      } else if (isIdentity && type.toUpperCase() === 'BIGINT') {
-        type = 'BIGSERIAL';
-      }
-      
-      // Extract default value (handle function calls, type casts, and complex expressions)
+        cursor.acceptKeyword('WITHOUT', 'TIME', 'ZONE');
+      }
+    }
+    if (name === 'FLOAT') {
+      // FLOAT(p) is REAL up to 24 bits of precision, DOUBLE PRECISION beyond
+      name = modifiers[0] !== undefined && modifiers[0] <= 24 ? 'REAL' : 'DOUBLE PRECISION';
+      modifiers.length = 0;
+    }
+    name = TYPE_ALIASES[name] ?? name;
+
+    const isRenamed = name !== typeName.name.toUpperCase() || typeName.schema !== undefined;
+    const type: Omit<ColumnType, 'arrayDimensions'> = { typeName: isRenamed ? { name } : typeName };
+    if (name === 'NUMERIC') {
+      // NUMERIC(p) has a scale of 0
+      type.precision = modifiers[0];
+      type.scale = modifiers[0] !== undefined ? modifiers[1] ?? 0 : undefined;
+    } else if (PRECISION_TYPES.includes(name)) {
+      type.precision = modifiers[0];
+    } else if (modifiers.length === 1) {
+      type.length = modifiers[0];
+    }
+    return type;
+  }
+
+  // The type-related fields of a column declared with the given type
+  private static resolveColumnType(columnType: ColumnType, context: ParseContext, types: TypeCatalog): Pick<SQLColumn, 'type' | 'length' | 'precision' | 'scale' | 'isEnum' | 'arrayDimensions' | 'domain' | 'compositeType'> {
+    const domain = this.findBySchema(types.domains, columnType.typeName, context.searchPath);
+    const enumType = domain ? undefined : this.findBySchema(types.enums, columnType.typeName, context.searchPath);
+    const arrayDimensions = columnType.arrayDimensions + (domain?.arrayDimensions ?? 0);
+    return {
+      type: domain?.type ?? enumType?.name ?? columnType.typeName.name,
+      length: columnType.length ?? domain?.length,
+      precision: columnType.precision ?? domain?.precision,
+      scale: columnType.scale ?? domain?.scale,
+      isEnum: domain ? domain.isEnum : enumType !== undefined,
+      arrayDimensions: arrayDimensions > 0 ? arrayDimensions : undefined,
+      domain: domain?.name,
+      compositeType: domain ? undefined : this.findBySchema(types.compositeTypes, columnType.typeName, context.searchPath)
+    };
+  }
+
+  // DEFAULT expression up to the next column clause; NOT and NULL inside CASE ... END, after IS, or as the
+  // default value itself belong to the expression. DEFAULT NULL is the same as no default
+  private static acceptDefaultExpression(cursor: SQLCursor): string | undefined {
+    const taken: SQLNode[] = [];
+    let caseDepth = 0;
+    while (!cursor.isDone()) {
+      const previous = taken[taken.length - 1];
+      const isInExpression = caseDepth > 0 || SQLCursor.isWord(previous, 'IS') || SQLCursor.isWord(previous, 'NOT');
+      const startsClause =
+        cursor.isKeyword('NOT', 'NULL') ||
+        (cursor.isKeyword('NULL') && previous !== undefined) ||
+        COLUMN_CLAUSE_KEYWORDS.some(word => cursor.isKeyword(word));
+      if (startsClause && !isInExpression) break;
+
+      const node = cursor.next()!;
+      if (SQLCursor.isWord(node, 'CASE')) {
+        caseDepth++;
+      } else if (SQLCursor.isWord(node, 'END') && caseDepth > 0) {
+        caseDepth--;
+      }
+      taken.push(node);
+    }
+    const expression = cursor.text(taken);
+    return expression.toUpperCase() === 'NULL' ? undefined : expression;
+  }
+
+  private static parseColumn(columnDef: SQLNode[], context: ParseContext, table: {name: string, columns: SQLColumn[], constraints: SQLConstraint[]}, types: TypeCatalog, tables: SQLTable[]): SQLColumn | null {
+    const range = context.sourceMap.rangeOf(columnDef);
+    try {
+      const cursor = new SQLCursor(columnDef, context.sourceMap);
+      const name = cursor.acceptIdentifier();
+      const columnType = this.acceptColumnType(cursor, context, types);
+      if (!name || !columnType) {
+        context.diagnostics.push({
+          severity: 'warning',
+          code: 'PARSE_ERROR',
+          message: `Could not parse column definition "${cursor.text(columnDef)}" in table ${table.name}`,
+          range,
+          table: table.name
+        });
+        return null;
+      }
+
+      // Columns typed with a domain take the domain's base type, constraints and default
+      const domain = this.findBySchema(types.domains, columnType.typeName, context.searchPath);
+      const resolvedType = this.resolveColumnType(columnType, context, types);
+      let type = resolvedType.type;
+
+      let isPrimaryKey = false;
+      let isUnique = false;
+      let isNotNull = false;
+      let isIdentity = false;
+      let sequenceOptions: SQLSequenceOptions | undefined;
+      let generatedExpression: string | undefined;
       let defaultValue: string | undefined;
-      const defaultMatch = columnDef.match(/DEFAULT\s+((?:\([^)]*(?:\([^)]*\)[^)]*)*\)(?:::\w+)?)|(?:[^,\s]+))/i);
-      if (defaultMatch) {
-        defaultValue = defaultMatch[1];
-      }
-
-      // Check for inline REFERENCES constraint (handle quoted and unquoted identifiers)
-      const referencesMatch = columnDef.match(/REFERENCES\s+(?:"([^"]+)"|(\w+))\s*\(\s*([^)]+)\s*\)/i);
-      if (referencesMatch) {
-        const referencedTable = referencesMatch[1] || referencesMatch[2]; // quoted or unquoted table name
-        const referencedColumns = referencesMatch[3].split(',').map(col => this.parseIdentifier(col.trim()));
-        
-        // Add the foreign key constraint to the table's constraints
-        const foreignKeyConstraint: SQLConstraint = {
-          type: 'FOREIGN KEY',
-          columns: [name],
-          referencedTable,
-          referencedColumns
-        };
-        
-        table.constraints.push(foreignKeyConstraint);
+      let pendingConstraintName: string | undefined;
+
+      while (!cursor.isDone()) {
+        // CONSTRAINT name applies only to the clause right after it
+        const constraintName = pendingConstraintName;
+        pendingConstraintName = undefined;
+        if (cursor.isKeyword('PRIMARY', 'KEY') || cursor.isKeyword('UNIQUE')) {
+          const keyStart = cursor.mark();
+          const keyType = cursor.isKeyword('UNIQUE') ? 'UNIQUE' : 'PRIMARY KEY';
+          cursor.acceptKeyword(...keyType.split(' '));
+          // A named key is kept as a constraint so that its name reaches the generator
+          if (constraintName) {
+            table.constraints.push({ type: keyType, name: constraintName, columns: [name], range: cursor.range(cursor.consumedSince(keyStart)) });
+          }
+          if (keyType === 'PRIMARY KEY') {
+            isPrimaryKey = true;
+          } else if (!constraintName) {
+            isUnique = true;
+          }
+        } else if (cursor.acceptKeyword('NOT', 'NULL')) {
+          isNotNull = true;
+        } else if (cursor.acceptKeyword('DEFAULT')) {
+          // Keep the expression's original text (function calls, type casts, nested parentheses)
+          defaultValue = this.acceptDefaultExpression(cursor);
+        } else if (cursor.acceptKeyword('CONSTRAINT')) {
+          pendingConstraintName = cursor.acceptIdentifier();
+        } else if (cursor.isKeyword('CHECK')) {
+          const checkStart = cursor.mark();
+          cursor.acceptKeyword('CHECK');
+          const expression = cursor.acceptGroup();
+          if (expression) {
+            table.constraints.push({
+              ...this.parseCheckExpression(expression, context),
+              name: constraintName,
+              range: cursor.range(cursor.consumedSince(checkStart))
+            });
+          }
+        } else if (cursor.acceptKeyword('GENERATED')) {
+          cursor.acceptKeyword('ALWAYS') || cursor.acceptKeyword('BY', 'DEFAULT');
+          if (cursor.acceptKeyword('AS', 'IDENTITY')) {
+            isIdentity = true;
+            sequenceOptions = this.parseIdentityOptions(cursor, context);
+          } else if (cursor.acceptKeyword('AS')) {
+            // GENERATED ALWAYS AS (expr) { STORED | VIRTUAL }
+            const expression = cursor.acceptGroup();
+            if (expression) {
+              generatedExpression = cursor.text(expression.children);
+            }
+            cursor.acceptKeyword('STORED') || cursor.acceptKeyword('VIRTUAL');
+          }
+        } else if (cursor.isKeyword('REFERENCES')) {
+          const referencesStart = cursor.mark();
+          cursor.acceptKeyword('REFERENCES');
+          const referencedTable = cursor.acceptQualifiedName();
+          const referencedGroup = cursor.acceptGroup();
+          if (referencedTable) {
+            // Add the foreign key constraint to the table's constraints
+            const foreignKeyConstraint: SQLConstraint = {
+              type: 'FOREIGN KEY',
+              name: constraintName,
+              columns: [name],
+              referencedColumns: referencedGroup ? SQLCursor.identifierList(referencedGroup) : undefined
+            };
+            this.parseReferentialActions(cursor, foreignKeyConstraint);
+            foreignKeyConstraint.range = cursor.range(cursor.consumedSince(referencesStart));
+            this.setReferencedTable(foreignKeyConstraint, referencedTable, context, tables);
+            table.constraints.push(foreignKeyConstraint);
+          }
+        } else {
+          cursor.next();
+        }
       }
 
+      if (domain) {
+        isNotNull = isNotNull || !domain.nullable;
+        defaultValue = defaultValue ?? domain.defaultValue;
+        for (const check of domain.checks) {
+          table.constraints.push({ ...check, columns: [name] });
+        }
+      }
+
+      isUnique = isUnique || isPrimaryKey;
+
+      // If it's an IDENTITY column (PostgreSQL auto-increment alternative), treat it as if it were SERIAL for Prisma conversion
+      const isSerial = isIdentity && SERIAL_TYPES[type.toUpperCase()] !== undefined;
+      if (isSerial) {
+        type = SERIAL_TYPES[type.toUpperCase()];
+      }
+      // IDENTITY and SERIAL columns are implicitly NOT NULL
+      const isAutoIncrement = isIdentity || Object.values(SERIAL_TYPES).includes(type.toUpperCase());
+      const nullable = !isNotNull && !isPrimaryKey && !isAutoIncrement;
+
       return {
         name,
-        type: isEnum ? type : type.toUpperCase(), // Preserve case for enums
+        ...resolvedType,
+        type: resolvedType.isEnum ? type : type.toUpperCase(), // Preserve case for enums
         nullable,
         defaultValue,
         isPrimaryKey,
         isUnique,
-        length,
-        isEnum
+        sequenceOptions: isSerial ? sequenceOptions : undefined,
+        generatedExpression,
+        range
       };
     } catch (error) {
-      console.error('Error parsing column:', error);
+      context.diagnostics.push({
+        severity: 'warning',
+        code: 'PARSE_ERROR',
+        message: `Failed to parse column in table ${table.name}: ${this.errorMessage(error)}`,
+        range,
+        table: table.name
+      });
       return null;
     }
   }
 
-  private static parseConstraint(constraintDef: string): SQLConstraint | null {
+  private static parseConstraint(constraintDef: SQLNode[], context: ParseContext, tableName: string, tables: SQLTable[]): SQLConstraint | null {
+    const range = context.sourceMap.rangeOf(constraintDef);
     try {
-      const upper = constraintDef.toUpperCase();
-      
-      if (upper.includes('PRIMARY KEY')) {
-        const columnsMatch = constraintDef.match(/PRIMARY\s+KEY\s*\(\s*([^)]+)\s*\)/i);
-        if (columnsMatch) {
-          const columns = columnsMatch[1].split(',').map(col => col.trim());
+      const cursor = new SQLCursor(constraintDef, context.sourceMap);
+      const name = cursor.acceptKeyword('CONSTRAINT') ? cursor.acceptIdentifier() : undefined;
+
+      if (cursor.acceptKeyword('PRIMARY', 'KEY')) {
+        const columnsGroup = cursor.acceptGroup();
+        if (columnsGroup) {
           return {
             type: 'PRIMARY KEY',
-            columns
+            name,
+            columns: SQLCursor.identifierList(columnsGroup),
+            range
           };
         }
       }
-      
-      if (upper.includes('FOREIGN KEY')) {
-        const fkMatch = constraintDef.match(/FOREIGN\s+KEY\s*\(\s*([^)]+)\s*\)\s*REFERENCES\s+(\w+)\s*\(\s*([^)]+)\s*\)/i);
-        if (fkMatch) {
-          const columns = fkMatch[1].split(',').map(col => col.trim());
-          const referencedTable = fkMatch[2];
-          const referencedColumns = fkMatch[3].split(',').map(col => col.trim());
+
+      if (cursor.acceptKeyword('UNIQUE')) {
+        // NULLS [NOT] DISTINCT has no Prisma equivalent; the column list is what matters
+        cursor.acceptKeyword('NULLS', 'NOT', 'DISTINCT') || cursor.acceptKeyword('NULLS', 'DISTINCT');
+        const columnsGroup = cursor.acceptGroup();
+        if (columnsGroup) {
           return {
-            type: 'FOREIGN KEY',
-            columns,
-            referencedTable,
-            referencedColumns
+            type: 'UNIQUE',
+            name,
+            columns: SQLCursor.identifierList(columnsGroup),
+            range
           };
         }
       }
 
+      if (cursor.acceptKeyword('CHECK')) {
+        const expression = cursor.acceptGroup();
+        if (expression) {
+          return { ...this.parseCheckExpression(expression, context), name, range };
+        }
+      }
+
+      if (cursor.acceptKeyword('FOREIGN', 'KEY')) {
+        // Keep the same object: it may be queued for search_path resolution
+        const constraint = this.parseForeignKeyReference(cursor, context, tables);
+        if (constraint) {
+          constraint.name = name;
+          constraint.range = range;
+          return constraint;
+        }
+      }
+
+      context.diagnostics.push({
+        severity: 'warning',
+        code: 'SKIPPED_CLAUSE',
+        message: `Table constraint "${cursor.text(constraintDef)}" on ${tableName} is not supported and was dropped`,
+        range,
+        table: tableName
+      });
       return null;
     } catch (error) {
-      console.error('Error parsing constraint:', error);
+      context.diagnostics.push({
+        severity: 'warning',
+        code: 'PARSE_ERROR',
+        message: `Failed to parse constraint on ${tableName}: ${this.errorMessage(error)}`,
+        range,
+        table: tableName
+      });
       return null;
     }
   }
 
-  private static parseCreateEnum(statement: string): SQLEnum | null {
+  // Parse "(cols) REFERENCES table [(cols)]" following the FOREIGN KEY keywords
+  private static parseForeignKeyReference(cursor: SQLCursor, context: ParseContext, tables: SQLTable[]): SQLConstraint | null {
+    const columnsGroup = cursor.acceptGroup();
+    if (!columnsGroup || !cursor.acceptKeyword('REFERENCES')) return null;
+
+    const referencedTable = cursor.acceptQualifiedName();
+    if (!referencedTable) return null;
+    const referencedGroup = cursor.acceptGroup();
+
+    const constraint: SQLConstraint = {
+      type: 'FOREIGN KEY',
+      columns: SQLCursor.identifierList(columnsGroup),
+      referencedColumns: referencedGroup ? SQLCursor.identifierList(referencedGroup) : undefined
+    };
+    this.parseReferentialActions(cursor, constraint);
+    this.setReferencedTable(constraint, referencedTable, context, tables);
+    return constraint;
+  }
+
+  // [MATCH type] [ON DELETE action] [ON UPDATE action], in either order
+  private static parseReferentialActions(cursor: SQLCursor, constraint: SQLConstraint): void {
+    while (!cursor.isDone()) {
+      if (cursor.acceptKeyword('MATCH')) {
+        cursor.next();
+      } else if (cursor.acceptKeyword('ON', 'DELETE')) {
+        constraint.onDelete = this.acceptReferentialAction(cursor) ?? constraint.onDelete;
+      } else if (cursor.acceptKeyword('ON', 'UPDATE')) {
+        constraint.onUpdate = this.acceptReferentialAction(cursor) ?? constraint.onUpdate;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private static acceptReferentialAction(cursor: SQLCursor): SQLReferentialAction | undefined {
+    if (cursor.acceptKeyword('CASCADE')) return 'CASCADE';
+    if (cursor.acceptKeyword('RESTRICT')) return 'RESTRICT';
+    if (cursor.acceptKeyword('NO', 'ACTION')) return 'NO ACTION';
+    if (cursor.acceptKeyword('SET', 'NULL')) {
+      // PostgreSQL 15 allows a column list here; Prisma has no equivalent
+      cursor.acceptGroup();
+      return 'SET NULL';
+    }
+    if (cursor.acceptKeyword('SET', 'DEFAULT')) {
+      cursor.acceptGroup();
+      return 'SET DEFAULT';
+    }
+    return undefined;
+  }
+
+  private static parseCreateDomain(statement: SQLStatement, context: ParseContext, types: TypeCatalog): SQLDomain | null {
+    const range = context.sourceMap.rangeOf(statement.nodes);
     try {
-      // Extract enum name and values from CREATE TYPE ... AS ENUM (...)
-      const enumMatch = statement.match(/CREATE\s+TYPE\s+(?:"([^"]+)"|(\w+))\s+AS\s+ENUM\s*\(\s*([^)]+)\s*\)/i);
-      if (!enumMatch) return null;
+      // CREATE DOMAIN name [AS] type [COLLATE c] [DEFAULT expr] [[CONSTRAINT name] { NOT NULL | NULL | CHECK (expr) }]...
+      const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+      cursor.acceptKeyword('CREATE', 'DOMAIN');
+      const domainName = cursor.acceptQualifiedName();
+      cursor.acceptKeyword('AS');
+      const columnType = this.acceptColumnType(cursor, context, types);
+      if (!domainName || !columnType) {
+        context.diagnostics.push({ severity: 'error', code: 'PARSE_ERROR', message: 'Could not parse CREATE DOMAIN statement', range });
+        return null;
+      }
 
-      const enumName = enumMatch[1] || enumMatch[2]; // quoted or unquoted name
-      const valuesString = enumMatch[3];
+      // A domain over another domain inherits its base type, constraints and default
+      const base = this.findBySchema(types.domains, columnType.typeName, context.searchPath);
+      const enumType = base ? undefined : this.findBySchema(types.enums, columnType.typeName, context.searchPath);
+      const arrayDimensions = columnType.arrayDimensions + (base?.arrayDimensions ?? 0);
+      const domain: SQLDomain = {
+        name: domainName.name,
+        schema: domainName.schema ?? context.searchPath[0] ?? DEFAULT_SEARCH_PATH[0],
+        type: base?.type ?? enumType?.name ?? columnType.typeName.name,
+        length: columnType.length ?? base?.length,
+        precision: columnType.precision ?? base?.precision,
+        scale: columnType.scale ?? base?.scale,
+        arrayDimensions: arrayDimensions > 0 ? arrayDimensions : undefined,
+        isEnum: base ? base.isEnum : enumType !== undefined,
+        nullable: base?.nullable ?? true,
+        defaultValue: base?.defaultValue,
+        checks: [...(base?.checks ?? [])],
+        range
+      };
 
-      // Parse enum values (handle quoted values)
-      const values = valuesString
-        .split(',')
-        .map(value => {
-          const trimmed = value.trim();
-          // Remove quotes if present
-          if ((trimmed.startsWith("'") && trimmed.endsWith("'")) || 
-              (trimmed.startsWith('"') && trimmed.endsWith('"'))) {
-            return trimmed.slice(1, -1);
+      let pendingConstraintName: string | undefined;
+      while (!cursor.isDone()) {
+        const constraintName = pendingConstraintName;
+        pendingConstraintName = undefined;
+        if (cursor.acceptKeyword('CONSTRAINT')) {
+          pendingConstraintName = cursor.acceptIdentifier();
+        } else if (cursor.acceptKeyword('NOT', 'NULL')) {
+          domain.nullable = false;
+        } else if (cursor.acceptKeyword('DEFAULT')) {
+          domain.defaultValue = this.acceptDefaultExpression(cursor);
+        } else if (cursor.acceptKeyword('COLLATE')) {
+          cursor.acceptQualifiedName();
+        } else if (cursor.isKeyword('CHECK')) {
+          const checkStart = cursor.mark();
+          cursor.acceptKeyword('CHECK');
+          const expression = cursor.acceptGroup();
+          if (expression) {
+            // The expression refers to the value as VALUE; columns are filled in per column
+            domain.checks.push({
+              ...this.parseCheckExpression(expression, context),
+              name: constraintName,
+              range: cursor.range(cursor.consumedSince(checkStart))
+            });
           }
-          return trimmed;
-        })
+        } else {
+          cursor.next();
+        }
+      }
+      return domain;
+    } catch (error) {
+      context.diagnostics.push({
+        severity: 'error',
+        code: 'PARSE_ERROR',
+        message: `Failed to parse domain: ${this.errorMessage(error)}`,
+        range
+      });
+      return null;
+    }
+  }
+
+  // CREATE TYPE name AS (attribute type, ...); enums, ranges and base types have other forms
+  private static isCreateCompositeType(statement: SQLStatement, context: ParseContext): boolean {
+    const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+    return cursor.acceptKeyword('CREATE', 'TYPE') && cursor.acceptQualifiedName() !== undefined && cursor.acceptKeyword('AS') && cursor.acceptGroup() !== undefined;
+  }
+
+  private static parseCreateCompositeType(statement: SQLStatement, context: ParseContext): SQLCompositeType | null {
+    const range = context.sourceMap.rangeOf(statement.nodes);
+    const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+    cursor.acceptKeyword('CREATE', 'TYPE');
+    const typeName = cursor.acceptQualifiedName();
+    const attributes = cursor.acceptKeyword('AS') ? cursor.acceptGroup() : undefined;
+    if (!typeName || !attributes) {
+      context.diagnostics.push({ severity: 'error', code: 'PARSE_ERROR', message: 'Could not parse CREATE TYPE ... AS (...) statement', range });
+      return null;
+    }
+    return {
+      name: typeName.name,
+      schema: typeName.schema ?? context.searchPath[0] ?? DEFAULT_SEARCH_PATH[0],
+      definition: `(${cursor.text(attributes.children).replace(/\s+/g, ' ')})`,
+      range
+    };
+  }
+
+  private static parseCreateEnum(statement: SQLStatement, context: ParseContext): SQLEnum | null {
+    const range = context.sourceMap.rangeOf(statement.nodes);
+    try {
+      // CREATE TYPE name AS ENUM ('a', 'b', ...)
+      const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+      cursor.acceptKeyword('CREATE', 'TYPE');
+      const enumName = cursor.acceptQualifiedName();
+      const valuesGroup = cursor.acceptKeyword('AS', 'ENUM') ? cursor.acceptGroup() : undefined;
+      if (!enumName || !valuesGroup) {
+        context.diagnostics.push({ severity: 'error', code: 'PARSE_ERROR', message: 'Could not parse CREATE TYPE ... AS ENUM statement', range });
+        return null;
+      }
+
+      // Enum labels are string literals; the lexer has already removed the quotes
+      const values = SQLCursor.splitByCommas(valuesGroup.children)
+        .map(part => part[0])
+        .filter((node): node is SQLToken => node.type === 'string' || SQLCursor.isIdentifier(node))
+        .map(node => node.value)
         .filter(value => value.length > 0);
 
       return {
-        name: enumName,
-        values
+        name: enumName.name,
+        schema: enumName.schema ?? context.searchPath[0] ?? DEFAULT_SEARCH_PATH[0],
+        values,
+        range
       };
     } catch (error) {
-      console.error('Error parsing enum:', error);
+      context.diagnostics.push({
+        severity: 'error',
+        code: 'PARSE_ERROR',
+        message: `Failed to parse enum: ${this.errorMessage(error)}`,
+        range
+      });
       return null;
     }
   }
 
-  private static parseAlterTableForeignKey(statement: string, tables: SQLTable[]): void {
+  // ALTER TYPE name { ADD VALUE [IF NOT EXISTS] 'v' [{ BEFORE | AFTER } 'w'] | RENAME VALUE 'v' TO 'w' | RENAME TO new_name }
+  private static parseAlterType(statement: SQLStatement, context: ParseContext, types: TypeCatalog, tables: SQLTable[]): boolean {
+    const range = context.sourceMap.rangeOf(statement.nodes);
+    const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+    cursor.acceptKeyword('ALTER', 'TYPE');
+    const typeName = cursor.acceptQualifiedName();
+    if (!typeName) return false;
+
+    const isEnumAction = cursor.isKeyword('ADD', 'VALUE') || cursor.isKeyword('RENAME', 'VALUE');
+    const enumDef = this.findBySchema(types.enums, typeName, context.searchPath);
+    if (!enumDef) {
+      // RENAME TO may target a composite type, which is left alone
+      if (!isEnumAction) return false;
+      context.diagnostics.push({
+        severity: 'warning',
+        code: 'UNRESOLVED_REFERENCE',
+        message: `ALTER TYPE targets unknown enum ${typeName.name}; the change was dropped`,
+        range
+      });
+      return true;
+    }
+
+    if (cursor.acceptKeyword('ADD', 'VALUE')) {
+      cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+      const value = cursor.acceptString();
+      if (value === undefined || enumDef.values.includes(value)) return true;
+
+      // New labels go last unless placed next to an existing one
+      const isBefore = cursor.acceptKeyword('BEFORE');
+      const neighborIndex = isBefore || cursor.acceptKeyword('AFTER') ? enumDef.values.indexOf(cursor.acceptString() ?? '') : -1;
+      if (neighborIndex === -1) {
+        enumDef.values.push(value);
+      } else {
+        enumDef.values.splice(isBefore ? neighborIndex : neighborIndex + 1, 0, value);
+      }
+      return true;
+    }
+
+    if (cursor.acceptKeyword('RENAME', 'VALUE')) {
+      const oldValue = cursor.acceptString();
+      const newValue = cursor.acceptKeyword('TO') ? cursor.acceptString() : undefined;
+      const index = oldValue === undefined ? -1 : enumDef.values.indexOf(oldValue);
+      if (index !== -1 && newValue !== undefined) {
+        enumDef.values[index] = newValue;
+      }
+      return true;
+    }
+
+    if (cursor.acceptKeyword('RENAME', 'TO')) {
+      const newName = cursor.acceptIdentifier();
+      if (!newName) return false;
+      // Domains and columns declared so far keep the enum's name as their type
+      for (const typed of [...types.domains, ...tables.flatMap(table => table.columns)]) {
+        if (typed.isEnum && typed.type === enumDef.name) {
+          typed.type = newName;
+        }
+      }
+      enumDef.name = newName;
+      return true;
+    }
+
+    return false;
+  }
+
+  // DROP TYPE [IF EXISTS] name [, ...] [CASCADE | RESTRICT]; like PostgreSQL, a type that columns or domains
+  // still use is only dropped with CASCADE, which drops those columns and domains too
+  private static parseDropType(statement: SQLStatement, context: ParseContext, types: TypeCatalog, tables: SQLTable[]): void {
+    const range = context.sourceMap.rangeOf(statement.nodes);
+    const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+    cursor.acceptKeyword('DROP', 'TYPE');
+    cursor.acceptKeyword('IF', 'EXISTS');
+    const isCascade = this.containsKeywords(statement, 'CASCADE');
+    for (const part of SQLCursor.splitByCommas(cursor.rest())) {
+      const typeName = new SQLCursor(part, context.sourceMap).acceptQualifiedName();
+      if (!typeName) continue;
+
+      const enumDef = this.findBySchema(types.enums, typeName, context.searchPath);
+      const compositeType = this.findBySchema(types.compositeTypes, typeName, context.searchPath);
+      if (!enumDef && !compositeType) continue;
+
+      const usesType = (column: SQLColumn) => (enumDef ? column.isEnum === true && column.type === enumDef.name : column.compositeType === compositeType);
+      const dependentColumns = tables.flatMap(table => table.columns.filter(usesType).map(column => ({ table, column })));
+      const dependentDomains = types.domains.filter(domain => enumDef && domain.isEnum && domain.type === enumDef.name);
+      if (!isCascade && (dependentColumns.length > 0 || dependentDomains.length > 0)) {
+        const users = [...dependentColumns.map(({ table, column }) => `${table.name}.${column.name}`), ...dependentDomains.map(domain => domain.name)];
+        context.diagnostics.push({
+          severity: 'warning',
+          code: 'SKIPPED_CLAUSE',
+          message: `DROP TYPE ${typeName.name} was skipped because it is still used by ${users.join(', ')}; PostgreSQL requires CASCADE`,
+          range
+        });
+        continue;
+      }
+
+      for (const { table, column } of dependentColumns) {
+        this.dropColumn(table, column.name, tables);
+      }
+      for (const domain of dependentDomains) {
+        types.domains.splice(types.domains.indexOf(domain), 1);
+      }
+      if (enumDef) {
+        types.enums.splice(types.enums.indexOf(enumDef), 1);
+      } else {
+        types.compositeTypes.splice(types.compositeTypes.indexOf(compositeType!), 1);
+      }
+    }
+  }
+
+  // CREATE EXTENSION [IF NOT EXISTS] name [WITH] [SCHEMA schema] [VERSION version] [CASCADE],
+  // ALTER EXTENSION name { UPDATE [TO version] | SET SCHEMA schema } and DROP EXTENSION [IF EXISTS] name [, ...];
+  // returns false for other ALTER EXTENSION actions, which only add or remove member objects
+  private static parseExtension(statement: SQLStatement, context: ParseContext, extensions: SQLExtension[]): boolean {
+    const range = context.sourceMap.rangeOf(statement.nodes);
+    const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+
+    if (cursor.acceptKeyword('DROP', 'EXTENSION')) {
+      cursor.acceptKeyword('IF', 'EXISTS');
+      for (const part of SQLCursor.splitByCommas(cursor.rest())) {
+        const name = new SQLCursor(part, context.sourceMap).acceptIdentifier();
+        const index = extensions.findIndex(extension => extension.name === name);
+        if (index !== -1) {
+          extensions.splice(index, 1);
+        }
+      }
+      return true;
+    }
+
+    const isCreate = cursor.acceptKeyword('CREATE', 'EXTENSION');
+    if (isCreate) {
+      cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+    } else {
+      cursor.acceptKeyword('ALTER', 'EXTENSION');
+    }
+    const name = cursor.acceptIdentifier();
+    if (!name) {
+      context.diagnostics.push({ severity: 'warning', code: 'PARSE_ERROR', message: 'Extension statement has no extension name and was skipped', range });
+      return true;
+    }
+
+    let extension = extensions.find(candidate => candidate.name === name);
+    if (!isCreate) {
+      const isSchemaChange = cursor.isKeyword('UPDATE') || cursor.isKeyword('SET', 'SCHEMA');
+      // An extension installed outside this SQL stays out of the list when it is altered
+      if (extension && isSchemaChange) {
+        this.acceptExtensionOption(cursor, extension);
+      }
+      return isSchemaChange;
+    }
+    if (extension) return true;
+
+    extension = { name, schema: context.searchPath[0] ?? DEFAULT_SEARCH_PATH[0], range };
+    extensions.push(extension);
+    cursor.acceptKeyword('WITH');
+    // CASCADE installs required extensions that the SQL doesn't name, so they stay out of the list
+    while (!cursor.isDone()) {
+      if (!this.acceptExtensionOption(cursor, extension) && !cursor.acceptKeyword('CASCADE')) break;
+    }
+    return true;
+  }
+
+  // SCHEMA / SET SCHEMA schema, VERSION / UPDATE [TO] version
+  private static acceptExtensionOption(cursor: SQLCursor, extension: SQLExtension): boolean {
+    if (cursor.acceptKeyword('SCHEMA') || cursor.acceptKeyword('SET', 'SCHEMA')) {
+      extension.schema = cursor.acceptIdentifier() ?? extension.schema;
+      return true;
+    }
+    if (cursor.acceptKeyword('VERSION') || cursor.acceptKeyword('UPDATE')) {
+      cursor.acceptKeyword('TO');
+      const version = cursor.acceptString() ?? cursor.acceptIdentifier();
+      if (version) {
+        extension.version = version;
+      }
+      return true;
+    }
+    return false;
+  }
+
+  // CREATE SEQUENCE [IF NOT EXISTS] name [options] and ALTER SEQUENCE [IF EXISTS] name [options];
+  // only OWNED BY { table.column | NONE }, START and INCREMENT matter for the schema
+  private static parseSequence(statement: SQLStatement, context: ParseContext, sequences: SQLSequence[]): void {
+    const range = context.sourceMap.rangeOf(statement.nodes);
+    const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+    const isCreate = cursor.acceptKeyword('CREATE');
+    cursor.acceptKeyword('ALTER');
+    cursor.acceptKeyword('SEQUENCE');
+    cursor.acceptKeyword('IF', 'NOT', 'EXISTS') || cursor.acceptKeyword('IF', 'EXISTS');
+    const name = cursor.acceptQualifiedName();
+    if (!name) return;
+
+    let sequence = this.findBySchema(sequences, name, context.searchPath);
+    if (isCreate || !sequence) {
+      sequence = { name: name.name, schema: name.schema ?? context.searchPath[0] ?? DEFAULT_SEARCH_PATH[0], range };
+      sequences.push(sequence);
+    }
+
+    while (!cursor.isDone()) {
+      if (!cursor.acceptKeyword('OWNED', 'BY')) {
+        if (!this.acceptSequenceOption(cursor, sequence)) {
+          cursor.next();
+        }
+      } else if (cursor.acceptKeyword('NONE')) {
+        delete sequence.ownedBy;
+      } else {
+        // [schema.]table.column
+        const parts = cursor.acceptDottedName() ?? [];
+        if (parts.length >= 2) {
+          const [column, table, schema] = [...parts].reverse();
+          sequence.ownedBy = { schema: schema ?? context.searchPath[0] ?? DEFAULT_SEARCH_PATH[0], table, column };
+        }
+      }
+    }
+  }
+
+  // START [WITH] n / INCREMENT [BY] n; returns false for any other option
+  private static acceptSequenceOption(cursor: SQLCursor, options: SQLSequenceOptions): boolean {
+    const isStart = cursor.acceptKeyword('START');
+    if (!isStart && !cursor.acceptKeyword('INCREMENT')) return false;
+    cursor.acceptKeyword(isStart ? 'WITH' : 'BY');
+
+    const isNegative = cursor.acceptOperator('-');
+    const node = cursor.peek();
+    if (node?.type === 'number') {
+      cursor.next();
+      const value = Number(node.value) * (isNegative ? -1 : 1);
+      if (isStart) {
+        options.startWith = value;
+      } else {
+        options.incrementBy = value;
+      }
+    }
+    return true;
+  }
+
+  // The optional ( sequence_options ) after AS IDENTITY; undefined when the sequence starts at 1 and counts up by 1
+  private static parseIdentityOptions(cursor: SQLCursor, context: ParseContext): SQLSequenceOptions | undefined {
+    const group = cursor.acceptGroup();
+    if (!group) return undefined;
+
+    const options: SQLSequenceOptions = {};
+    const optionsCursor = new SQLCursor(group.children, context.sourceMap);
+    while (!optionsCursor.isDone()) {
+      if (!this.acceptSequenceOption(optionsCursor, options)) {
+        optionsCursor.next();
+      }
+    }
+    return this.customSequenceOptions(options);
+  }
+
+  private static customSequenceOptions(options: SQLSequenceOptions): SQLSequenceOptions | undefined {
+    const custom: SQLSequenceOptions = {};
+    if (options.startWith !== undefined && options.startWith !== 1) {
+      custom.startWith = options.startWith;
+    }
+    if (options.incrementBy !== undefined && options.incrementBy !== 1) {
+      custom.incrementBy = options.incrementBy;
+    }
+    return Object.keys(custom).length > 0 ? custom : undefined;
+  }
+
+  // A nextval() default behaves like SERIAL when the column owns the sequence, or when an unowned sequence
+  // with SERIAL's naming (table_column_seq) feeds only this column; other nextval() defaults are left as they are
+  private static applySequenceDefaults(tables: SQLTable[], sequences: SQLSequence[]): void {
+    const sequenceDefaults = tables.flatMap(table =>
+      table.columns.flatMap(column => {
+        const sequenceName = column.defaultValue ? this.parseNextvalSequence(column.defaultValue) : undefined;
+        return sequenceName ? [{ table, column, sequenceName }] : [];
+      })
+    );
+
+    // Columns per sequence, to tell a column's own sequence from a shared one
+    const sequenceKey = (sequenceName: SQLQualifiedName, table: SQLTable) => `${sequenceName.schema ?? table.schema}.${sequenceName.name}`;
+    const usage = new Map<string, number>();
+    for (const { table, sequenceName } of sequenceDefaults) {
+      const key = sequenceKey(sequenceName, table);
+      usage.set(key, (usage.get(key) ?? 0) + 1);
+    }
+
+    for (const { table, column, sequenceName } of sequenceDefaults) {
+      if (!SERIAL_TYPES[column.type]) continue;
+
+      const searchPath = [table.schema, ...DEFAULT_SEARCH_PATH];
+      const sequence = this.findBySchema(sequences, sequenceName, searchPath);
+      const ownedBy = sequence?.ownedBy;
+      const isOwned = ownedBy?.schema === table.schema && ownedBy.table === table.name && ownedBy.column === column.name;
+      const isImplicit =
+        !ownedBy &&
+        sequenceName.name === `${table.name}_${column.name}_seq` &&
+        usage.get(sequenceKey(sequenceName, table)) === 1;
+
+      if (isOwned || isImplicit) {
+        column.type = SERIAL_TYPES[column.type];
+        column.sequenceOptions = sequence ? this.customSequenceOptions(sequence) : undefined;
+        delete column.defaultValue;
+      }
+    }
+  }
+
+  // The sequence named by nextval('seq') or nextval('schema.seq'::regclass)
+  private static parseNextvalSequence(defaultValue: string): SQLQualifiedName | undefined {
+    const match = NEXTVAL_PATTERN.exec(defaultValue.trim());
+    if (!match) return undefined;
+    const parts = SQLLexer.tokenize(match[1].replace(/''/g, "'"))
+      .filter(token => SQLCursor.isIdentifier(token))
+      .map(token => token.value);
+    return { name: parts[parts.length - 1], schema: parts.length > 1 ? parts[parts.length - 2] : undefined };
+  }
+
+  // ALTER TABLE [IF EXISTS] [ONLY] name action [, ...]; actions are replayed in file order against the parsed tables
+  private static parseAlterTable(statement: SQLStatement, context: ParseContext, tables: SQLTable[], types: TypeCatalog): boolean {
+    const range = context.sourceMap.rangeOf(statement.nodes);
     try {
-      // Parse: ALTER TABLE "table_name" ADD [CONSTRAINT "name"] FOREIGN KEY ("column") REFERENCES "referenced_table" ("referenced_column")
-      // Note: dbdiagram.io's export format means the FK is actually in the referenced table, not the ALTER TABLE target
-      const fkMatch = statement.match(
-        /ALTER\s+TABLE\s+(?:"([^"]+)"|(\w+))\s+ADD\s+(?:CONSTRAINT\s+(?:"[^"]+"|[\w]+)\s+)?FOREIGN\s+KEY\s*\(\s*(?:"([^"]+)"|(\w+))\s*\)\s+REFERENCES\s+(?:"([^"]+)"|(\w+))\s*\(\s*(?:"([^"]+)"|(\w+))\s*\)/i
+      const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+      cursor.acceptKeyword('ALTER', 'TABLE');
+      const ifExists = cursor.acceptKeyword('IF', 'EXISTS');
+      cursor.acceptKeyword('ONLY');
+
+      const qualifiedName = cursor.acceptQualifiedName();
+      if (!qualifiedName) return false;
+
+      if (this.isPartition(qualifiedName, context)) return true;
+      const table = this.findBySchema(tables, qualifiedName, context.searchPath);
+      if (!table) {
+        if (!ifExists) {
+          context.diagnostics.push({
+            severity: 'warning',
+            code: 'UNRESOLVED_REFERENCE',
+            message: `ALTER TABLE targets unknown table ${qualifiedName.name}; its changes were dropped`,
+            range,
+            table: qualifiedName.name
+          });
+        }
+        return true;
+      }
+
+      for (const action of SQLCursor.splitByCommas(cursor.rest())) {
+        this.applyAlterTableAction(action, context, table, tables, types);
+      }
+      return true;
+    } catch (error) {
+      context.diagnostics.push({
+        severity: 'warning',
+        code: 'PARSE_ERROR',
+        message: `Failed to parse ALTER TABLE statement: ${this.errorMessage(error)}`,
+        range
+      });
+      return true;
+    }
+  }
+
+  private static applyAlterTableAction(action: SQLNode[], context: ParseContext, table: SQLTable, tables: SQLTable[], types: TypeCatalog): void {
+    const cursor = new SQLCursor(action, context.sourceMap);
+    const range = cursor.range(action);
+    const warnUnknown = (kind: string, name: string) => {
+      context.diagnostics.push({
+        severity: 'warning',
+        code: 'UNRESOLVED_REFERENCE',
+        message: `ALTER TABLE ${table.name} references unknown ${kind} ${name}`,
+        range,
+        table: table.name
+      });
+    };
+
+    if (cursor.acceptKeyword('ADD')) {
+      const definition = cursor.rest();
+      if (this.isConstraintDefinition(definition)) {
+        // Note: dbdiagram.io's export format means the FK is actually in the referenced table, not the ALTER TABLE target
+        const constraint = this.parseConstraint(definition, context, table.name, tables);
+        if (constraint) {
+          table.constraints.push(constraint);
+          if (constraint.type === 'PRIMARY KEY') {
+            this.applyPrimaryKey(table, constraint, context);
+          } else if (constraint.type === 'CHECK') {
+            this.resolveCheckColumns(table, constraint);
+          }
+        }
+        return;
+      }
+
+      // ADD [COLUMN] [IF NOT EXISTS] column_definition
+      const columnCursor = new SQLCursor(definition, context.sourceMap);
+      columnCursor.acceptKeyword('COLUMN');
+      columnCursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+      const constraintCount = table.constraints.length;
+      const column = this.parseColumn(columnCursor.rest(), context, table, types, tables);
+      if (column && !table.columns.some(c => c.name === column.name)) {
+        table.columns.push(column);
+        for (const constraint of table.constraints.slice(constraintCount)) {
+          if (constraint.type === 'CHECK') {
+            this.resolveCheckColumns(table, constraint);
+          }
+        }
+      }
+    } else if (cursor.acceptKeyword('DROP')) {
+      // DROP CONSTRAINT [IF EXISTS] name | DROP [COLUMN] [IF EXISTS] name, then an optional CASCADE / RESTRICT
+      const isConstraint = cursor.acceptKeyword('CONSTRAINT');
+      if (!isConstraint) {
+        cursor.acceptKeyword('COLUMN');
+      }
+      const ifExists = cursor.acceptKeyword('IF', 'EXISTS');
+      const name = cursor.acceptIdentifier();
+      if (!name) {
+        this.skipAlterTableAction(cursor, action, context, table);
+        return;
+      }
+      const dropped = isConstraint ? this.dropConstraint(table, name) : this.dropColumn(table, name, tables);
+      if (!dropped && !ifExists) {
+        warnUnknown(isConstraint ? 'constraint' : 'column', name);
+      }
+    } else if (cursor.acceptKeyword('RENAME')) {
+      if (cursor.acceptKeyword('TO')) {
+        const newName = cursor.acceptIdentifier();
+        if (newName) {
+          this.renameTable(table, newName, tables);
+        }
+      } else if (cursor.acceptKeyword('CONSTRAINT')) {
+        const oldName = cursor.acceptIdentifier();
+        const newName = cursor.acceptKeyword('TO') ? cursor.acceptIdentifier() : undefined;
+        const constraint = oldName ? this.findConstraintByName(table, oldName) : undefined;
+        if (constraint && newName) {
+          constraint.name = newName;
+        }
+      } else {
+        cursor.acceptKeyword('COLUMN');
+        const oldName = cursor.acceptIdentifier();
+        const newName = cursor.acceptKeyword('TO') ? cursor.acceptIdentifier() : undefined;
+        if (!oldName || !newName) {
+          this.skipAlterTableAction(cursor, action, context, table);
+        } else if (!this.renameColumn(table, oldName, newName, tables)) {
+          warnUnknown('column', oldName);
+        }
+      }
+    } else if (cursor.acceptKeyword('ALTER')) {
+      cursor.acceptKeyword('COLUMN');
+      const columnName = cursor.acceptIdentifier();
+      const column = table.columns.find(c => c.name === columnName);
+      if (!column) {
+        warnUnknown('column', columnName ?? cursor.text(action));
+      } else if (cursor.acceptKeyword('SET', 'NOT', 'NULL')) {
+        column.nullable = false;
+      } else if (cursor.acceptKeyword('DROP', 'NOT', 'NULL')) {
+        column.nullable = true;
+      } else if (cursor.acceptKeyword('SET', 'DEFAULT')) {
+        column.defaultValue = this.acceptDefaultExpression(cursor);
+      } else if (cursor.acceptKeyword('DROP', 'DEFAULT')) {
+        delete column.defaultValue;
+      } else if (cursor.acceptKeyword('DROP', 'EXPRESSION')) {
+        // The column keeps its values but becomes an ordinary column
+        delete column.generatedExpression;
+      } else if (cursor.acceptKeyword('SET', 'EXPRESSION', 'AS')) {
+        const expression = cursor.acceptGroup();
+        if (expression) {
+          column.generatedExpression = cursor.text(expression.children);
+        }
+      } else if (cursor.acceptKeyword('ADD', 'GENERATED')) {
+        // pg_dump declares identity columns this way: ADD GENERATED { ALWAYS | BY DEFAULT } AS IDENTITY (...)
+        cursor.acceptKeyword('ALWAYS') || cursor.acceptKeyword('BY', 'DEFAULT');
+        if (cursor.acceptKeyword('AS', 'IDENTITY')) {
+          // Identity columns are NOT NULL (PostgreSQL rejects the ALTER on a nullable column)
+          column.nullable = false;
+          if (SERIAL_TYPES[column.type]) {
+            column.type = SERIAL_TYPES[column.type];
+            column.sequenceOptions = this.parseIdentityOptions(cursor, context);
+          }
+        }
+      } else if (cursor.acceptKeyword('SET', 'DATA', 'TYPE') || cursor.acceptKeyword('TYPE')) {
+        // A trailing COLLATE or USING clause only affects how existing rows are converted
+        const columnType = this.acceptColumnType(cursor, context, types);
+        if (columnType) {
+          const resolvedType = this.resolveColumnType(columnType, context, types);
+          const type = resolvedType.isEnum ? resolvedType.type : resolvedType.type.toUpperCase();
+          // SERIAL and IDENTITY columns keep their sequence, e.g. through the common int -> bigint id upgrade
+          const isSequenceBacked = Object.values(SERIAL_TYPES).includes(column.type) && SERIAL_TYPES[type] !== undefined && !resolvedType.arrayDimensions;
+          Object.assign(column, resolvedType, { type: isSequenceBacked ? SERIAL_TYPES[type] : type });
+        }
+      } else {
+        this.skipAlterTableAction(cursor, action, context, table);
+      }
+    } else if (cursor.acceptKeyword('ATTACH', 'PARTITION')) {
+      // pg_dump creates each partition as a table of its own and attaches it afterwards
+      const partitionName = cursor.acceptQualifiedName();
+      const partition = partitionName ? this.findBySchema(tables, partitionName, context.searchPath) : undefined;
+      if (partition) {
+        tables.splice(tables.indexOf(partition), 1);
+        this.addPartition(partition, table.name, context, range);
+      }
+    } else if (cursor.acceptKeyword('OWNER', 'TO')) {
+      // Ownership has no Prisma equivalent
+    } else if (cursor.acceptKeyword('SET', 'SCHEMA')) {
+      const schema = cursor.acceptIdentifier();
+      if (schema) {
+        for (const constraint of this.referencesTo(table, tables)) {
+          constraint.referencedSchema = schema;
+        }
+        // References pinned to the moved table are no longer resolved against the search_path
+        context.pendingReferences = context.pendingReferences.filter(pending => pending.constraint.referencedSchema === undefined);
+        table.schema = schema;
+      }
+    } else {
+      this.skipAlterTableAction(cursor, action, context, table);
+    }
+  }
+
+  private static skipAlterTableAction(cursor: SQLCursor, action: SQLNode[], context: ParseContext, table: SQLTable): void {
+    context.diagnostics.push({
+      severity: 'info',
+      code: 'SKIPPED_CLAUSE',
+      message: `ALTER TABLE ${table.name} action "${cursor.text(action)}" is not supported and was skipped`,
+      range: cursor.range(action),
+      table: table.name
+    });
+  }
+
+  // The name PostgreSQL generates for an unnamed constraint, e.g. users_email_key
+  private static defaultConstraintName(tableName: string, constraint: SQLConstraint): string {
+    switch (constraint.type) {
+      case 'PRIMARY KEY':
+        return `${tableName}_pkey`;
+      case 'UNIQUE':
+        return `${tableName}_${constraint.columns.join('_')}_key`;
+      case 'FOREIGN KEY':
+        return `${tableName}_${constraint.columns.join('_')}_fkey`;
+      case 'CHECK':
+        return constraint.columns.length === 1 ? `${tableName}_${constraint.columns[0]}_check` : `${tableName}_check`;
+    }
+  }
+
+  private static findConstraintByName(table: SQLTable, name: string): SQLConstraint | undefined {
+    return table.constraints.find(constraint => (constraint.name ?? this.defaultConstraintName(table.name, constraint)) === name);
+  }
+
+  // Inline PRIMARY KEY and UNIQUE are only recorded on the column, so they are matched by their generated names
+  private static dropConstraint(table: SQLTable, name: string): boolean {
+    const constraint = this.findConstraintByName(table, name);
+    if (constraint) {
+      table.constraints.splice(table.constraints.indexOf(constraint), 1);
+      if (constraint.type === 'PRIMARY KEY') {
+        table.columns.filter(column => constraint.columns.includes(column.name)).forEach(column => {
+          column.isPrimaryKey = false;
+          column.isUnique = false;
+        });
+      }
+      return true;
+    }
+
+    for (const column of table.columns) {
+      if (column.isPrimaryKey && name === `${table.name}_pkey`) {
+        column.isPrimaryKey = false;
+        column.isUnique = false;
+        return true;
+      }
+      if (column.isUnique && !column.isPrimaryKey && name === `${table.name}_${column.name}_key`) {
+        column.isUnique = false;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // PostgreSQL keeps constraint names when a table or column is renamed, so generated names are
+  // fixed before the rename; inline keys become named constraints for that
+  private static pinConstraintNames(table: SQLTable, columnName?: string): void {
+    for (const constraint of table.constraints) {
+      if (!constraint.name && (columnName === undefined || constraint.columns.includes(columnName))) {
+        constraint.name = this.defaultConstraintName(table.name, constraint);
+      }
+    }
+    for (const column of table.columns) {
+      if (columnName !== undefined && column.name !== columnName) continue;
+      if (column.isPrimaryKey && !table.constraints.some(constraint => constraint.type === 'PRIMARY KEY')) {
+        // The column's UNIQUE flag only came with the inline PRIMARY KEY
+        column.isUnique = false;
+        table.constraints.push({ type: 'PRIMARY KEY', name: `${table.name}_pkey`, columns: [column.name], range: column.range });
+      } else if (column.isUnique && !column.isPrimaryKey) {
+        column.isUnique = false;
+        table.constraints.push({ type: 'UNIQUE', name: `${table.name}_${column.name}_key`, columns: [column.name], range: column.range });
+      }
+    }
+  }
+
+  // Foreign keys (in any table) that point at the given table
+  private static referencesTo(table: SQLTable, tables: SQLTable[]): SQLConstraint[] {
+    return tables
+      .flatMap(candidate => candidate.constraints)
+      .filter(constraint =>
+        constraint.type === 'FOREIGN KEY' &&
+        constraint.referencedTable === table.name &&
+        (constraint.referencedSchema === undefined || constraint.referencedSchema === table.schema)
+      );
+  }
+
+  // Like PostgreSQL, dropping a column also drops the constraints and indexes that use it
+  private static dropColumn(table: SQLTable, name: string, tables: SQLTable[]): boolean {
+    const column = table.columns.find(c => c.name === name);
+    if (!column) return false;
+
+    for (const reference of this.referencesTo(table, tables)) {
+      if (reference.referencedColumns?.includes(name)) {
+        const owner = tables.find(candidate => candidate.constraints.includes(reference))!;
+        owner.constraints.splice(owner.constraints.indexOf(reference), 1);
+      }
+    }
+    table.columns.splice(table.columns.indexOf(column), 1);
+    table.constraints = table.constraints.filter(constraint => !constraint.columns.includes(name));
+    table.indexes = table.indexes.filter(index => !index.columns.some(indexColumn => indexColumn.column === name));
+    return true;
+  }
+
+  private static renameColumn(table: SQLTable, oldName: string, newName: string, tables: SQLTable[]): boolean {
+    const column = table.columns.find(c => c.name === oldName);
+    if (!column) return false;
+
+    this.pinConstraintNames(table, oldName);
+    const rename = (name: string) => (name === oldName ? newName : name);
+    column.name = newName;
+    for (const constraint of table.constraints) {
+      constraint.columns = constraint.columns.map(rename);
+    }
+    for (const index of table.indexes) {
+      for (const indexColumn of index.columns) {
+        if (indexColumn.column) {
+          indexColumn.column = rename(indexColumn.column);
+        }
+      }
+    }
+    for (const reference of this.referencesTo(table, tables)) {
+      reference.referencedColumns = reference.referencedColumns?.map(rename);
+    }
+    return true;
+  }
+
+  private static renameTable(table: SQLTable, newName: string, tables: SQLTable[]): void {
+    this.pinConstraintNames(table);
+    for (const reference of this.referencesTo(table, tables)) {
+      reference.referencedTable = newName;
+    }
+    table.name = newName;
+  }
+
+  private static isCreateIndex(statement: SQLStatement): boolean {
+    return this.startsWithKeywords(statement, 'CREATE', 'INDEX') || this.startsWithKeywords(statement, 'CREATE', 'UNIQUE', 'INDEX');
+  }
+
+  // Without views (while tables are still being replayed) returns false for an index on anything but a known table,
+  // so that the statement can be retried once views are known
+  private static parseCreateIndex(statement: SQLStatement, context: ParseContext, tables: SQLTable[], views?: SQLView[]): boolean {
+    const range = context.sourceMap.rangeOf(statement.nodes);
+    try {
+      // CREATE [UNIQUE] INDEX [CONCURRENTLY] [[IF NOT EXISTS] name] ON [ONLY] table [USING method] (elements)
+      //   [INCLUDE (...)] [NULLS [NOT] DISTINCT] [WITH (...)] [TABLESPACE name] [WHERE predicate]
+      const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+      cursor.acceptKeyword('CREATE');
+      const isUnique = cursor.acceptKeyword('UNIQUE');
+      cursor.acceptKeyword('INDEX');
+      cursor.acceptKeyword('CONCURRENTLY');
+      cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+      // The index name cannot be schema-qualified; it always lives in the table's schema
+      const name = cursor.isKeyword('ON') ? undefined : cursor.acceptIdentifier();
+
+      const hasTarget = cursor.acceptKeyword('ON');
+      cursor.acceptKeyword('ONLY');
+      const tableName = hasTarget ? cursor.acceptQualifiedName() : undefined;
+      const method = cursor.acceptKeyword('USING') ? cursor.acceptIdentifier()?.toLowerCase() : undefined;
+      const elements = cursor.acceptGroup();
+      if (!tableName || !elements) {
+        context.diagnostics.push({ severity: 'warning', code: 'PARSE_ERROR', message: `Could not parse CREATE INDEX ${name ?? ''}`.trimEnd(), range });
+        return true;
+      }
+
+      const index: SQLIndex = {
+        name,
+        columns: SQLCursor.splitByCommas(elements.children).map(element => this.parseIndexColumn(element, context)),
+        isUnique,
+        method,
+        range
+      };
+
+      while (!cursor.isDone()) {
+        if (cursor.acceptKeyword('WHERE')) {
+          index.where = cursor.text(cursor.rest());
+        } else if (cursor.acceptKeyword('INCLUDE')) {
+          const included = cursor.acceptGroup();
+          context.diagnostics.push({
+            severity: 'info',
+            code: 'SKIPPED_CLAUSE',
+            message: `INCLUDE columns of index ${name ?? 'on ' + tableName.name} have no Prisma equivalent and were dropped`,
+            range: included ? cursor.range([included]) : range,
+            table: tableName.name
+          });
+        } else {
+          // NULLS [NOT] DISTINCT, WITH (...) and TABLESPACE only affect storage or NULL handling
+          cursor.next();
+        }
+      }
+
+      const table = this.findBySchema(tables, tableName, context.searchPath);
+      if (table) {
+        table.indexes.push(index);
+      } else if (this.isPartition(tableName, context)) {
+        // Partition indexes mirror the parent's
+      } else if (!views) {
+        return false;
+      } else if (this.findBySchema(views, tableName, context.searchPath)) {
+        context.diagnostics.push({
+          severity: 'info',
+          code: 'SKIPPED_STATEMENT',
+          message: `Index ${name ?? 'on ' + tableName.name} is on a materialized view; Prisma views cannot declare indexes`,
+          range,
+          table: tableName.name
+        });
+      } else {
+        context.diagnostics.push({
+          severity: 'warning',
+          code: 'UNRESOLVED_REFERENCE',
+          message: `CREATE INDEX targets unknown table ${tableName.name}; the index was dropped`,
+          range,
+          table: tableName.name
+        });
+      }
+    } catch (error) {
+      context.diagnostics.push({
+        severity: 'warning',
+        code: 'PARSE_ERROR',
+        message: `Failed to parse CREATE INDEX statement: ${this.errorMessage(error)}`,
+        range
+      });
+    }
+    return true;
+  }
+
+  // column | (expression) | function(...), then [COLLATE c] [opclass [(params)]] [ASC | DESC] [NULLS FIRST | LAST]
+  private static parseIndexColumn(element: SQLNode[], context: ParseContext): SQLIndexColumn {
+    const cursor = new SQLCursor(element, context.sourceMap);
+    const indexColumn: SQLIndexColumn = {};
+    if (SQLCursor.isIdentifier(cursor.peek()) && !SQLCursor.isGroup(cursor.peek(1))) {
+      indexColumn.column = cursor.acceptIdentifier();
+    } else {
+      const expressionStart = cursor.mark();
+      cursor.acceptQualifiedName();
+      cursor.acceptGroup();
+      indexColumn.expression = cursor.text(cursor.consumedSince(expressionStart));
+    }
+
+    while (!cursor.isDone()) {
+      if (cursor.acceptKeyword('COLLATE')) {
+        cursor.acceptQualifiedName();
+      } else if (cursor.acceptKeyword('ASC')) {
+        indexColumn.sort = 'ASC';
+      } else if (cursor.acceptKeyword('DESC')) {
+        indexColumn.sort = 'DESC';
+      } else if (cursor.acceptKeyword('NULLS')) {
+        cursor.next();
+      } else if (SQLCursor.isIdentifier(cursor.peek())) {
+        indexColumn.operatorClass = cursor.acceptQualifiedName()!.name;
+        cursor.acceptGroup();
+      } else {
+        cursor.next();
+      }
+    }
+    return indexColumn;
+  }
+
+  // Returns false for COMMENT ON targets other than tables, views, columns and types, and, without views (while
+  // tables are still being replayed), for targets that are not a known table yet
+  private static parseComment(statement: SQLStatement, context: ParseContext, tables: SQLTable[], enums: SQLEnum[], views?: SQLView[]): boolean {
+    const range = context.sourceMap.rangeOf(statement.nodes);
+    // COMMENT ON { TABLE name | [MATERIALIZED] VIEW name | COLUMN [schema.]table.column | TYPE name } IS { 'text' | NULL }
+    const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+    cursor.acceptKeyword('COMMENT', 'ON');
+    cursor.acceptKeyword('MATERIALIZED');
+    const targetKind = ['TABLE', 'VIEW', 'COLUMN', 'TYPE'].find(keyword => cursor.acceptKeyword(keyword));
+    if (!targetKind) return false;
+
+    const target = cursor.acceptDottedName();
+    if (!target || !cursor.acceptKeyword('IS')) {
+      context.diagnostics.push({ severity: 'warning', code: 'PARSE_ERROR', message: `Could not parse COMMENT ON ${targetKind} statement`, range });
+      return true;
+    }
+    // IS NULL removes the comment
+    const literal = cursor.next();
+    const comment = literal?.type === 'string' ? literal.value : undefined;
+
+    const unresolved = (message: string, table?: string) => {
+      context.diagnostics.push({ severity: 'warning', code: 'UNRESOLVED_REFERENCE', message, range, table });
+      return true;
+    };
+
+    if (targetKind === 'TYPE') {
+      const enumDef = this.findBySchema(enums, this.toQualifiedName(target), context.searchPath);
+      if (!enumDef) return unresolved(`COMMENT ON TYPE targets unknown enum ${target.join('.')}`);
+      enumDef.comment = comment;
+      return true;
+    }
+
+    // Column comments may target a view's (inferred) columns too
+    const tableParts = targetKind === 'COLUMN' ? target.slice(0, -1) : target;
+    const qualifiedName = this.toQualifiedName(tableParts);
+    const view = views && this.findBySchema(views, qualifiedName, context.searchPath);
+    const table = targetKind === 'VIEW' ? view : this.findBySchema(tables, qualifiedName, context.searchPath) ?? (targetKind === 'COLUMN' ? view : undefined);
+    if (!table && !views) return false;
+    if (!table) return unresolved(`COMMENT ON ${targetKind} targets unknown ${targetKind === 'VIEW' ? 'view' : 'table'} ${tableParts.join('.')}`, tableParts[tableParts.length - 1]);
+
+    if (targetKind !== 'COLUMN') {
+      table.comment = comment;
+      return true;
+    }
+    const column = table.columns?.find(c => c.name === target[target.length - 1]);
+    if (!column) return unresolved(`COMMENT ON COLUMN targets unknown column ${target.join('.')}`, table.name);
+    column.comment = comment;
+    return true;
+  }
+
+  private static toQualifiedName(parts: string[]): SQLQualifiedName {
+    const name = parts[parts.length - 1];
+    return parts.length > 1 ? { schema: parts[parts.length - 2], name } : { name };
+  }
+
+  private static isCreateView(statement: SQLStatement, context: ParseContext): boolean {
+    return this.acceptCreateViewPrefix(new SQLCursor(statement.nodes, context.sourceMap)) !== undefined;
+  }
+
+  // CREATE [OR REPLACE] [TEMP | TEMPORARY] [RECURSIVE] [MATERIALIZED] VIEW [IF NOT EXISTS]; returns whether the view is materialized
+  private static acceptCreateViewPrefix(cursor: SQLCursor): boolean | undefined {
+    if (!cursor.acceptKeyword('CREATE')) return undefined;
+    cursor.acceptKeyword('OR', 'REPLACE');
+    cursor.acceptKeyword('TEMPORARY') || cursor.acceptKeyword('TEMP');
+    cursor.acceptKeyword('RECURSIVE');
+    const isMaterialized = cursor.acceptKeyword('MATERIALIZED');
+    if (!cursor.acceptKeyword('VIEW')) return undefined;
+    cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+    return isMaterialized;
+  }
+
+  private static parseCreateView(statement: SQLStatement, context: ParseContext, tables: SQLTable[], views: SQLView[]): SQLView | null {
+    const range = context.sourceMap.rangeOf(statement.nodes);
+    try {
+      // CREATE ... VIEW name [(columns)] [USING method] [WITH (options)] [TABLESPACE name] AS query [WITH [NO] DATA | WITH CHECK OPTION]
+      const cursor = new SQLCursor(statement.nodes, context.sourceMap);
+      const isMaterialized = this.acceptCreateViewPrefix(cursor)!;
+      const qualifiedName = cursor.acceptQualifiedName();
+      const columnNames = cursor.acceptGroup();
+      if (cursor.acceptKeyword('USING')) cursor.acceptIdentifier();
+      if (cursor.acceptKeyword('WITH')) cursor.acceptGroup();
+      if (cursor.acceptKeyword('TABLESPACE')) cursor.acceptIdentifier();
+      if (!qualifiedName || !cursor.acceptKeyword('AS')) {
+        context.diagnostics.push({ severity: 'error', code: 'PARSE_ERROR', message: 'Could not parse CREATE VIEW statement', range });
+        return null;
+      }
+
+      let queryNodes = cursor.rest();
+      const trailer = queryNodes.findIndex((node, index) =>
+        index > 0 && SQLCursor.isWord(node, 'WITH') && ['DATA', 'NO', 'CHECK', 'CASCADED', 'LOCAL'].some(word => SQLCursor.isWord(queryNodes[index + 1], word))
       );
-      
-      if (!fkMatch) return;
-
-      const alterTableName = fkMatch[1] || fkMatch[2]; // the table being altered (contains the FK column)
-      const foreignKeyColumn = fkMatch[3] || fkMatch[4]; // the FK column in the altered table
-      const referencedTableName = fkMatch[5] || fkMatch[6]; // the table being referenced
-      const referencedColumn = fkMatch[7] || fkMatch[8]; // the referenced column
-
-      // The constraint should be added to the table that contains the foreign key column (the one being altered)
-      const foreignKeyTable = tables.find(t => t.name === alterTableName);
-      if (foreignKeyTable) {
-        const constraint: SQLConstraint = {
-          type: 'FOREIGN KEY',
-          columns: [foreignKeyColumn],
-          referencedTable: referencedTableName,
-          referencedColumns: [referencedColumn]
-        };
-        
-        foreignKeyTable.constraints.push(constraint);
+      if (trailer !== -1) {
+        queryNodes = queryNodes.slice(0, trailer);
+      }
+
+      const view: SQLView = {
+        name: qualifiedName.name,
+        schema: qualifiedName.schema ?? context.searchPath[0] ?? DEFAULT_SEARCH_PATH[0],
+        isMaterialized,
+        query: context.sourceMap.text(queryNodes),
+        range
+      };
+
+      const inferred = this.inferViewColumns(queryNodes, context, tables, views);
+      const outputNames = columnNames ? SQLCursor.identifierList(columnNames) : [];
+      if (inferred.columns && outputNames.length > inferred.columns.length) {
+        inferred.reason = 'the column list is longer than the select list';
+      }
+      if (inferred.reason) {
+        context.diagnostics.push({
+          severity: 'warning',
+          code: 'INCOMPLETE_VIEW',
+          message: `Columns of view ${view.name} could not be inferred because ${inferred.reason}; a stub view was generated`,
+          range,
+          table: view.name
+        });
+        return view;
       }
+
+      // An explicit column list renames the leading output columns
+      view.columns = inferred.columns!.map((column, index) => ({ ...column, name: outputNames[index] ?? column.name }));
+      return view;
     } catch (error) {
-      console.error('Error parsing ALTER TABLE FOREIGN KEY:', error);
+      context.diagnostics.push({
+        severity: 'error',
+        code: 'PARSE_ERROR',
+        message: `Failed to parse CREATE VIEW statement: ${this.errorMessage(error)}`,
+        range
+      });
+      return null;
+    }
+  }
+
+  // Only select lists of column references, *, alias.* and casts over plain tables and joins can be inferred
+  private static inferViewColumns(nodes: SQLNode[], context: ParseContext, tables: SQLTable[], views: SQLView[]): { columns?: SQLColumn[]; reason?: string } {
+    const cursor = new SQLCursor(nodes, context.sourceMap);
+    if (!cursor.acceptKeyword('SELECT')) return { reason: 'the query is not a plain SELECT' };
+    if (cursor.acceptKeyword('DISTINCT')) {
+      if (cursor.acceptKeyword('ON')) cursor.acceptGroup();
+    } else {
+      cursor.acceptKeyword('ALL');
+    }
+
+    const selectList = cursor.takeUntilKeyword(['FROM']);
+    if (!cursor.acceptKeyword('FROM')) return { reason: 'the query has no FROM clause' };
+    const fromClause = cursor.takeUntilKeyword(VIEW_FROM_END_KEYWORDS);
+    if (cursor.rest().some(node => SQLCursor.isWord(node) && ['UNION', 'INTERSECT', 'EXCEPT'].includes(node.value.toUpperCase()))) {
+      return { reason: 'the query combines several SELECTs' };
     }
+
+    const sources = this.parseViewSources(fromClause, context, tables, views);
+    if (typeof sources === 'string') return { reason: sources };
+
+    const columns: SQLColumn[] = [];
+    for (const item of SQLCursor.splitByCommas(selectList)) {
+      const itemColumns = this.inferSelectItem(item, sources, context);
+      if (typeof itemColumns === 'string') return { reason: itemColumns };
+      columns.push(...itemColumns);
+    }
+    return { columns };
+  }
+
+  // FROM a [AS x] {, | [LEFT | RIGHT | FULL | INNER | CROSS] [OUTER] JOIN} b [AS y] [ON ... | USING (...)]
+  private static parseViewSources(fromClause: SQLNode[], context: ParseContext, tables: SQLTable[], views: SQLView[]): ViewSource[] | string {
+    const cursor = new SQLCursor(fromClause, context.sourceMap);
+    const sources: ViewSource[] = [];
+    let joinType: string | undefined;
+
+    while (!cursor.isDone()) {
+      if (SQLCursor.isGroup(cursor.peek())) return 'it selects from a subquery or function';
+      const relationName = cursor.acceptQualifiedName();
+      if (!relationName) return `"${cursor.text(fromClause)}" is not a plain table list`;
+
+      const table = this.findBySchema(tables, relationName, context.searchPath);
+      const view = table ? undefined : this.findBySchema(views, relationName, context.searchPath);
+      const columns = table?.columns ?? view?.columns;
+      if (!columns) return `${relationName.name} is not a known table or inferred view`;
+
+      cursor.acceptKeyword('AS');
+      const aliasNode = cursor.peek();
+      const alias = SQLCursor.isIdentifier(aliasNode) && !(SQLCursor.isWord(aliasNode) && VIEW_JOIN_KEYWORDS.includes(aliasNode.value.toUpperCase()))
+        ? cursor.acceptIdentifier()
+        : undefined;
+      if (SQLCursor.isGroup(cursor.peek())) return `${relationName.name} renames its columns`;
+
+      // Outer joins make the columns of the optional side nullable
+      const isNullable = joinType === 'LEFT' || joinType === 'FULL';
+      if (joinType === 'RIGHT' || joinType === 'FULL') {
+        sources.forEach(source => (source.isNullable = true));
+      }
+      sources.push({ name: alias ?? relationName.name, columns, isNullable, isTable: table !== undefined });
+
+      // Skip the join condition up to the next source
+      joinType = undefined;
+      while (!cursor.isDone() && !cursor.acceptPunctuation(',')) {
+        const node = cursor.next();
+        const word = SQLCursor.isWord(node) ? node.value.toUpperCase() : undefined;
+        if (word === 'JOIN') break;
+        if (word === 'LEFT' || word === 'RIGHT' || word === 'FULL') {
+          joinType = word;
+        }
+      }
+    }
+    return sources.length > 0 ? sources : 'the FROM clause is empty';
+  }
+
+  // [source.]column | [source.]* | expression::type, each with an optional [AS] alias
+  private static inferSelectItem(item: SQLNode[], sources: ViewSource[], context: ParseContext): SQLColumn[] | string {
+    const itemText = context.sourceMap.text(item);
+    let body = item;
+    let alias: string | undefined;
+    const last = item[item.length - 1];
+    const beforeLast = item[item.length - 2];
+    if (item.length >= 2 && SQLCursor.isIdentifier(last) && !SQLCursor.isPunctuation(beforeLast, '.') && !(beforeLast.type === 'operator' && beforeLast.value === '::')) {
+      alias = last.value;
+      body = item.slice(0, SQLCursor.isWord(beforeLast, 'AS') ? -2 : -1);
+    }
+
+    // A trailing cast fixes the type, e.g. amount::numeric(10, 2) AS total
+    const castIndex = body.map(node => node.type === 'operator' && node.value === '::').lastIndexOf(true);
+    if (castIndex > 0) {
+      const castCursor = new SQLCursor(body.slice(castIndex + 1), context.sourceMap);
+      const castType = this.acceptTypeName(castCursor);
+      const arrayDimensions = this.acceptArrayBounds(castCursor);
+      if (!castType || !castCursor.isDone()) return `the cast in "${itemText}" is not understood`;
+
+      const source = this.resolveSelectColumn(body.slice(0, castIndex), sources, itemText);
+      const name = alias ?? (typeof source === 'object' ? source.column.name : undefined);
+      if (!name) return `"${itemText}" needs an alias`;
+      return [{
+        name,
+        type: castType.typeName.name,
+        length: castType.length,
+        precision: castType.precision,
+        scale: castType.scale,
+        arrayDimensions: arrayDimensions > 0 ? arrayDimensions : undefined,
+        nullable: typeof source === 'object' ? source.column.nullable || source.source.isNullable : true,
+        isPrimaryKey: false,
+        isUnique: false,
+        range: context.sourceMap.rangeOf(item)
+      }];
+    }
+
+    // * and source.*
+    const isStar = (node: SQLNode | undefined) => node?.type === 'operator' && node.value === '*';
+    if (!alias && (isStar(body[0]) && body.length === 1 || body.length === 3 && SQLCursor.isPunctuation(body[1], '.') && isStar(body[2]))) {
+      const starSources = body.length === 1 ? sources : sources.filter(source => source.name === (body[0] as SQLToken).value);
+      if (starSources.length === 0) return `"${itemText}" references an unknown source`;
+      return starSources.flatMap(source => source.columns.map(column => this.viewColumn(column, source, sources, undefined, item, context)));
+    }
+
+    const resolved = this.resolveSelectColumn(body, sources, itemText);
+    if (typeof resolved === 'string') return resolved;
+    return [this.viewColumn(resolved.column, resolved.source, sources, alias, item, context)];
+  }
+
+  private static resolveSelectColumn(nodes: SQLNode[], sources: ViewSource[], itemText: string): { source: ViewSource; column: SQLColumn } | string {
+    const isColumnReference = nodes.length === 1 && SQLCursor.isIdentifier(nodes[0]);
+    const isQualifiedReference = nodes.length === 3 && SQLCursor.isIdentifier(nodes[0]) && SQLCursor.isPunctuation(nodes[1], '.') && SQLCursor.isIdentifier(nodes[2]);
+    if (!isColumnReference && !isQualifiedReference) return `the type of "${itemText}" cannot be inferred`;
+
+    const columnName = (nodes[nodes.length - 1] as SQLToken).value;
+    const candidates = isQualifiedReference ? sources.filter(source => source.name === (nodes[0] as SQLToken).value) : sources;
+    const matches = candidates.flatMap(source => source.columns.filter(column => column.name === columnName).map(column => ({ source, column })));
+    if (matches.length === 0) return `"${itemText}" references an unknown column`;
+    if (matches.length > 1) return `"${itemText}" is ambiguous`;
+    return matches[0];
+  }
+
+  // Views have no defaults or keys; a single-source view keeps its primary key (or unique view column) as unique
+  private static viewColumn(column: SQLColumn, source: ViewSource, sources: ViewSource[], alias: string | undefined, item: SQLNode[], context: ParseContext): SQLColumn {
+    // A view column only reads the value, so it loses SERIAL's sequence and the generation expression
+    return {
+      ...column,
+      name: alias ?? column.name,
+      type: this.integerTypeOf(column.type),
+      nullable: column.nullable || source.isNullable,
+      defaultValue: undefined,
+      sequenceOptions: undefined,
+      generatedExpression: undefined,
+      origin: undefined,
+      isPrimaryKey: false,
+      isUnique: sources.length === 1 && (source.isTable ? column.isPrimaryKey : column.isUnique),
+      comment: undefined,
+      range: context.sourceMap.rangeOf(item)
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import { SQLNode, SQLSourceRange } from "@/types";
+
+// Maps offsets in the original SQL to 1-based line/column positions (Monaco's convention)
+export class SQLSourceMap {
+  private readonly lineStarts: number[] = [0];
+
+  constructor(readonly source: string) {
+    for (let index = 0; index < source.length; index++) {
+      if (source[index] === '\n') {
+        this.lineStarts.push(index + 1);
+      }
+    }
+  }
+
+  text(nodes: SQLNode[]): string {
+    if (nodes.length === 0) return '';
+    return this.source.slice(nodes[0].start, nodes[nodes.length - 1].end);
+  }
+
+  rangeOf(nodes: SQLNode[]): SQLSourceRange | undefined {
+    if (nodes.length === 0) return undefined;
+    return this.rangeBetween(nodes[0].start, nodes[nodes.length - 1].end);
+  }
+
+  // End column is exclusive, matching Monaco's IRange
+  rangeBetween(start: number, end: number): SQLSourceRange {
+    const startPosition = this.positionAt(start);
+    const endPosition = this.positionAt(end);
+    return {
+      startLine: startPosition.line,
+      startColumn: startPosition.column,
+      endLine: endPosition.line,
+      endColumn: endPosition.column
+    };
+  }
+
+  private positionAt(offset: number): { line: number; column: number } {
+    // Binary search for the last line starting at or before the offset
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+}
@@ -1,31 +1,166 @@
 // SQL parsing types
+
+// 1-based positions in the original SQL; endColumn is exclusive
+export interface SQLSourceRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
 export interface SQLTable {
   name: string;
+  // Resolved PostgreSQL schema (explicit qualifier or the active search_path)
+  schema: string;
   columns: SQLColumn[];
   constraints: SQLConstraint[];
+  // Filled from CREATE INDEX statements
+  indexes: SQLIndex[];
+  // Partition method and key of a partitioned table, e.g. "RANGE (created_at)"
+  partitionBy?: string;
+  // Parent tables from INHERITS (...)
+  inherits?: string[];
+  // From COMMENT ON TABLE
+  comment?: string;
+  range?: SQLSourceRange;
 }
 
 export interface SQLEnum {
   name: string;
+  schema: string;
   values: string[];
+  // From COMMENT ON TYPE
+  comment?: string;
+  range?: SQLSourceRange;
+}
+
+export interface SQLView {
+  name: string;
+  schema: string;
+  isMaterialized: boolean;
+  // Inferred from the select list; undefined when the query is too complex
+  columns?: SQLColumn[];
+  query: string;
+  // From COMMENT ON VIEW / MATERIALIZED VIEW
+  comment?: string;
+  range?: SQLSourceRange;
+}
+
+export interface SQLDomain {
+  name: string;
+  schema: string;
+  // Base type, resolved through domains over other domains
+  type: string;
+  length?: number;
+  precision?: number;
+  scale?: number;
+  arrayDimensions?: number;
+  isEnum?: boolean;
+  nullable: boolean;
+  defaultValue?: string;
+  // CHECK constraints whose expressions refer to VALUE
+  checks: SQLConstraint[];
+  range?: SQLSourceRange;
+}
+
+export interface SQLCompositeType {
+  name: string;
+  schema: string;
+  // The parenthesized attribute list as written, e.g. "(street text, city text)"
+  definition: string;
+  range?: SQLSourceRange;
+}
+
+export interface SQLSequenceOptions {
+  startWith?: number;
+  incrementBy?: number;
+}
+
+export interface SQLSequence extends SQLSequenceOptions {
+  name: string;
+  schema: string;
+  // Column from OWNED BY; SERIAL columns own their sequence
+  ownedBy?: { schema: string; table: string; column: string };
+  range?: SQLSourceRange;
+}
+
+export interface SQLExtension {
+  // As written, e.g. "uuid-ossp"
+  name: string;
+  // Schema the extension's objects are installed in (WITH SCHEMA or the active search_path)
+  schema: string;
+  // Only set when VERSION is spelled out
+  version?: string;
+  range?: SQLSourceRange;
 }
 
 export interface SQLColumn {
   name: string;
+  // Canonical name for built-in types, e.g. VARCHAR for CHARACTER VARYING and TIMESTAMPTZ for TIMESTAMP WITH TIME ZONE
   type: string;
   nullable: boolean;
   defaultValue?: string;
   isPrimaryKey: boolean;
   isUnique: boolean;
+  // Length of VARCHAR(n), CHAR(n), BIT(n), ...
   length?: number;
+  // NUMERIC(precision, scale), or the fractional-seconds precision of TIMESTAMP(p), TIME(p) and INTERVAL(p)
+  precision?: number;
+  scale?: number;
   isEnum?: boolean;
+  // Set for array columns, e.g. 2 for INTEGER[][]
+  arrayDimensions?: number;
+  // Domain the column was declared with; type, nullability and default come from its base type
+  domain?: string;
+  // START / INCREMENT of a SERIAL or IDENTITY column's sequence, when they differ from 1
+  sequenceOptions?: SQLSequenceOptions;
+  // Expression of a GENERATED ALWAYS AS (...) STORED column; the database computes the value
+  generatedExpression?: string;
+  // Table the column was inherited from (INHERITS) or copied from (CREATE TABLE ... LIKE)
+  origin?: { table: string; via: 'INHERITS' | 'LIKE' };
+  // Set when the column's type is a composite type; the column cannot be mapped to a scalar
+  compositeType?: SQLCompositeType;
+  // From COMMENT ON COLUMN
+  comment?: string;
+  range?: SQLSourceRange;
 }
 
+export type SQLReferentialAction = 'CASCADE' | 'RESTRICT' | 'NO ACTION' | 'SET NULL' | 'SET DEFAULT';
+
 export interface SQLConstraint {
   type: 'PRIMARY KEY' | 'FOREIGN KEY' | 'UNIQUE' | 'CHECK';
+  // Explicit CONSTRAINT name, if any
+  name?: string;
   columns: string[];
   referencedTable?: string;
+  referencedSchema?: string;
   referencedColumns?: string[];
+  // Only set when the FOREIGN KEY spells out ON DELETE / ON UPDATE; unset means NO ACTION, PostgreSQL's default
+  onDelete?: SQLReferentialAction;
+  onUpdate?: SQLReferentialAction;
+  // CHECK only: the expression inside the parentheses, and the literals of a single-column IN list
+  expression?: string;
+  allowedValues?: string[];
+  range?: SQLSourceRange;
+}
+
+export interface SQLIndexColumn {
+  // Either a plain column or an expression such as lower(email)
+  column?: string;
+  expression?: string;
+  sort?: 'ASC' | 'DESC';
+  operatorClass?: string;
+}
+
+export interface SQLIndex {
+  name?: string;
+  columns: SQLIndexColumn[];
+  isUnique: boolean;
+  // Lowercase access method from USING, e.g. 'gin'
+  method?: string;
+  // Predicate of a partial index
+  where?: string;
+  range?: SQLSourceRange;
 }
 
 // Prisma generation types
@@ -33,11 +168,18 @@ export interface PrismaModel {
   name: string;
   fields: PrismaField[];
   attributes: string[];
+  // Printed as /// doc comments above the model
+  documentation?: string[];
+  // Emitted as a `view` block instead of a `model`
+  isView?: boolean;
 }
 
 export interface PrismaEnum {
   name: string;
   values: string[];
+  attributes: string[];
+  // Printed as /// doc comments above the enum
+  documentation?: string[];
 }
 
 export interface PrismaField {
@@ -46,10 +188,110 @@ export interface PrismaField {
   attributes: string[];
   isOptional: boolean;
   isArray: boolean;
+  // Printed as /// doc comments above the field
+  documentation?: string[];
+}
+
+export interface PrismaGeneratorOptions {
+  // Turn single-column CHECK (col IN (...)) constraints into generated Prisma enums
+  checkConstraintsAsEnums?: boolean;
+  // Emit composite-typed columns as Json instead of Unsupported("type")
+  compositeTypesAsJson?: boolean;
+}
+
+// Conversion diagnostics
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'PARSE_ERROR'
+  | 'SKIPPED_STATEMENT'
+  | 'SKIPPED_CLAUSE'
+  | 'UNKNOWN_TYPE'
+  | 'UNRESOLVED_REFERENCE'
+  | 'LOSSY_MAPPING'
+  | 'UNSUPPORTED_DEFAULT'
+  | 'INCOMPLETE_VIEW';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  range?: SQLSourceRange;
+  table?: string;
+  column?: string;
+  // Migration file the range falls in, when the SQL was imported from several files
+  file?: string;
 }
 
 // Parser result types
 export interface SQLParseResult {
   tables: SQLTable[];
   enums: SQLEnum[];
+  views: SQLView[];
+  domains: SQLDomain[];
+  compositeTypes: SQLCompositeType[];
+  sequences: SQLSequence[];
+  extensions: SQLExtension[];
+  diagnostics: Diagnostic[];
+}
+
+// Migration import types
+export interface MigrationFile {
+  name: string;
+  content: string;
+}
+
+export interface MigrationBundle {
+  // All applied files in order, each preceded by a "-- migration: <name>" line
+  sql: string;
+  // Applied file names in order
+  files: string[];
+  // Down / undo migrations that were left out
+  skipped: string[];
+}
+
+// Generator result types
+export interface PrismaGenerationResult {
+  schema: string;
+  diagnostics: Diagnostic[];
+}
+
+// Lexer and statement AST types
+export type SQLTokenType =
+  | 'word'
+  | 'quotedIdentifier'
+  | 'string'
+  | 'number'
+  | 'operator'
+  | 'punctuation'
+  | 'parameter';
+
+export interface SQLToken {
+  type: SQLTokenType;
+  // Decoded value: identifier without quotes, string literal contents, operator/punctuation text
+  value: string;
+  // Offsets into the original SQL source (end is exclusive)
+  start: number;
+  end: number;
+}
+
+// A parenthesized group; the parentheses themselves are not part of children
+export interface SQLGroup {
+  type: 'group';
+  children: SQLNode[];
+  start: number;
+  end: number;
+}
+
+export type SQLNode = SQLToken | SQLGroup;
+
+export interface SQLQualifiedName {
+  schema?: string;
+  name: string;
+}
+
+export interface SQLStatement {
+  nodes: SQLNode[];
+  start: number;
+  end: number;
 }
\ No newline at end of file